@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { adminFetch } from "../../lib/adminClient";
+import type { AdminResult } from "../../lib/adminClient";
+import type { SourcePreview } from "../../lib/scraper/preview";
+import type { SourceRow } from "../../lib/scraper/types";
+
+type LastRun = {
+  started_at: string;
+  finished_at: string | null;
+  strategy: string | null;
+  products_seen: number;
+  upserted: number;
+  rejected: number;
+  errors: number;
+  retired: number;
+  complete: boolean;
+  error_message: string | null;
+};
+
+type SourceWithRun = SourceRow & { last_run: LastRun | null };
+
+type AdapterOption = { id: string; label: string };
+
+type ShopOption = { id: string; name: string };
+
+type SourcesPayload = { sources: SourceWithRun[]; adapters: AdapterOption[] };
+
+// scrape_jobs (voir lib/scraper/jobs.ts)
+type JobRow = {
+  id: string;
+  type: "full" | "source" | "url";
+  source_id: string | null;
+  url: string | null;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  created_at: string;
+};
+
+const EMPTY_FORM = {
+  url: "",
+  shop_id: "",
+  category: "torch",
+  adapter: "",
+  discovery: "",
+  variant_mode: "",
+};
+
+function runStatus(r: LastRun | null): { label: string; color: string } {
+  if (!r) return { label: "jamais scrapée", color: "#666" };
+  if (r.error_message) return { label: "erreur", color: "#b00020" };
+  if (!r.complete) return { label: "partiel", color: "#8a5a00" };
+  return { label: "ok", color: "#0a6b2b" };
+}
+
+/**
+ * ✅ Admin scrape_sources : créer / modifier / désactiver une source,
+ * adapter épinglé, dernier passage (journal) et "tester" (dry-run, rien n'est écrit)
+ */
+export default function ScrapeSources({ shops }: { shops: ShopOption[] }) {
+  const [sources, setSources] = useState<SourceWithRun[]>([]);
+  const [adapters, setAdapters] = useState<AdapterOption[]>([]);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, SourcePreview>>({});
+  const [jobs, setJobs] = useState<JobRow[]>([]);
+
+  const shopName = (id: string) => shops.find((s) => s.id === id)?.name ?? id;
+
+  const applySources = ({ data, error }: AdminResult<SourcesPayload>) => {
+    if (error) {
+      setMsg("Erreur sources: " + error.message);
+      return;
+    }
+    setSources(data?.sources ?? []);
+    setAdapters(data?.adapters ?? []);
+  };
+
+  const applyJobs = ({ data, error }: AdminResult<JobRow[]>) => {
+    if (error) {
+      setMsg("Erreur jobs: " + error.message);
+      return;
+    }
+    setJobs(data ?? []);
+  };
+
+  const loadSources = async () => {
+    applySources(await adminFetch<SourcesPayload>("sources", "GET"));
+    applyJobs(await adminFetch<JobRow[]>("jobs", "GET"));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    adminFetch<SourcesPayload>("sources", "GET").then((res) => {
+      if (!cancelled) applySources(res);
+    });
+    adminFetch<JobRow[]>("jobs", "GET").then((res) => {
+      if (!cancelled) applyJobs(res);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, shop_id: shops[0]?.id ?? "" });
+  };
+
+  const startEdit = (s: SourceRow) => {
+    setMsg(null);
+    setEditingId(s.id);
+    setForm({
+      url: s.url,
+      shop_id: s.shop_id,
+      category: s.category,
+      adapter: s.adapter ?? "",
+      discovery: s.discovery ?? "",
+      variant_mode: s.variant_mode ?? "",
+    });
+  };
+
+  /* ===================== ACTIONS ===================== */
+
+  const saveSource = async () => {
+    setMsg(null);
+    const shop_id = form.shop_id || shops[0]?.id || "";
+    if (!form.url.trim() || !shop_id) return;
+
+    const payload = {
+      url: form.url.trim(),
+      shop_id,
+      category: form.category.trim() || "torch",
+      // "" = auto / défaut
+      adapter: form.adapter || null,
+      discovery: form.discovery || null,
+      variant_mode: form.variant_mode || null,
+    };
+
+    const { error } = editingId
+      ? await adminFetch(`sources/${editingId}`, "PATCH", payload)
+      : await adminFetch("sources", "POST", { ...payload, is_active: true });
+
+    if (error) {
+      setMsg(`Erreur (${editingId ? "update" : "add"} source): ${error.message}`);
+      return;
+    }
+
+    resetForm();
+    await loadSources();
+  };
+
+  const toggleActive = async (s: SourceRow) => {
+    setMsg(null);
+    const { error } = await adminFetch(`sources/${s.id}`, "PATCH", { is_active: !s.is_active });
+    if (error) {
+      setMsg("Erreur (is_active): " + error.message);
+      return;
+    }
+    await loadSources();
+  };
+
+  // ✅ file de jobs : traité au prochain passage du worker (cron ?resume=1 ou npm run scrape:worker)
+  const enqueue = async (label: string, body: Record<string, unknown>) => {
+    setMsg(null);
+    const { error } = await adminFetch("jobs", "POST", body);
+    if (error) {
+      setMsg(`Erreur (${label}): ${error.message}`);
+      return;
+    }
+    applyJobs(await adminFetch<JobRow[]>("jobs", "GET"));
+  };
+
+  const testSource = async (s: SourceRow) => {
+    setMsg(null);
+    setTestingId(s.id);
+
+    const { data, error } = await adminFetch<SourcePreview>(`sources/${s.id}/test`, "POST");
+
+    setTestingId(null);
+    if (error || !data) {
+      setMsg(`Erreur (test ${s.url}): ${error?.message ?? "no data"}`);
+      return;
+    }
+    setPreviews((p) => ({ ...p, [s.id]: data }));
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <section>
+      <h2>Sources de scrape</h2>
+
+      {msg && <div style={{ marginTop: 8, padding: 10, background: "#fff3cd", borderRadius: 8 }}>{msg}</div>}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+        <input
+          placeholder="URL (catégorie / boutique)"
+          value={form.url}
+          onChange={(e) => setForm({ ...form, url: e.target.value })}
+          style={{ minWidth: 320 }}
+        />
+
+        <select value={form.shop_id} onChange={(e) => setForm({ ...form, shop_id: e.target.value })}>
+          <option value="">Choisir un shop</option>
+          {shops.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+
+        <input
+          placeholder="Catégorie (ex: torch)"
+          value={form.category}
+          onChange={(e) => setForm({ ...form, category: e.target.value })}
+          style={{ width: 140 }}
+        />
+
+        <select value={form.adapter} onChange={(e) => setForm({ ...form, adapter: e.target.value })}>
+          <option value="">Adapter : auto-détection</option>
+          {adapters.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+
+        <select value={form.discovery} onChange={(e) => setForm({ ...form, discovery: e.target.value })}>
+          <option value="">Discovery : crawl</option>
+          <option value="sitemap">Discovery : sitemap</option>
+        </select>
+
+        <select value={form.variant_mode} onChange={(e) => setForm({ ...form, variant_mode: e.target.value })}>
+          <option value="">Variants : la moins chère</option>
+          <option value="all">Variants : toutes</option>
+        </select>
+
+        <button onClick={saveSource}>{editingId ? "💾 Enregistrer" : "Ajouter source"}</button>
+        {editingId ? <button onClick={resetForm}>Annuler</button> : null}
+        <button onClick={loadSources}>Rafraîchir</button>
+        <button onClick={() => enqueue("retry failed", { retry_failed: true })}>
+          🔁 Relancer les sources en échec
+        </button>
+      </div>
+
+      <ul style={{ marginTop: 12 }}>
+        {sources.map((s) => {
+          const st = runStatus(s.last_run);
+          const preview = previews[s.id];
+          return (
+            <li key={s.id} style={{ marginBottom: 12, opacity: s.is_active ? 1 : 0.55 }}>
+              <div>
+                <b>{s.url}</b>{" "}
+                <span style={{ opacity: 0.7 }}>
+                  — {shopName(s.shop_id)} — {s.category} — adapter: {s.adapter ?? "auto"}
+                  {s.discovery ? ` — ${s.discovery}` : ""}
+                  {s.variant_mode === "all" ? " — toutes variants" : ""}
+                  {s.is_active ? "" : " — désactivée"}
+                </span>
+              </div>
+
+              <div style={{ fontSize: 13 }}>
+                Dernier run : <b style={{ color: st.color }}>{st.label}</b>
+                {s.last_run ? (
+                  <>
+                    {" "}
+                    — {new Date(s.last_run.started_at).toLocaleString()} — {s.last_run.strategy ?? "?"} — trouvés:{" "}
+                    {s.last_run.upserted} / vus: {s.last_run.products_seen} — rejetés: {s.last_run.rejected} — erreurs:{" "}
+                    {s.last_run.errors}
+                  </>
+                ) : null}
+                {s.last_run?.error_message ? (
+                  <div style={{ color: "#b00020" }}>⚠️ {s.last_run.error_message}</div>
+                ) : null}
+              </div>
+
+              <div style={{ marginTop: 4 }}>
+                <button onClick={() => startEdit(s)}>✏️</button>{" "}
+                <button onClick={() => toggleActive(s)}>{s.is_active ? "Désactiver" : "Réactiver"}</button>{" "}
+                <button onClick={() => enqueue("rescrape", { type: "source", source_id: s.id })}>
+                  ⚡ Rescraper maintenant
+                </button>{" "}
+                <button onClick={() => testSource(s)} disabled={testingId === s.id}>
+                  {testingId === s.id ? "Test…" : "🧪 Tester cette source"}
+                </button>
+              </div>
+
+              {preview ? (
+                <div style={{ marginTop: 6, padding: 8, background: "#f4f6f8", borderRadius: 8, fontSize: 13 }}>
+                  <div>
+                    Dry-run ({preview.strategy}) : {preview.products_found} produits trouvés
+                    {preview.complete ? "" : " (discovery incomplète)"}
+                    {preview.timing ? ` — ${preview.timing.total_ms} ms` : ""} — rien n&apos;a été écrit
+                  </div>
+                  <ul>
+                    {preview.listings.map((l) => (
+                      <li key={l.url ?? l.title_raw}>
+                        <b>{l.title_raw}</b> — {l.price_cad ?? "—"} CAD
+                        {l.sale_price_cad != null ? ` (soldé: ${l.sale_price_cad})` : ""} — {l.status} — variant:{" "}
+                        {l.variant ?? "—"} — type: {l.coral_type ?? "?"}
+                        {l.unit_type ? ` — ${l.unit_count ?? "?"} ${l.unit_type}` : ""}
+                        {l.offers ? ` — ${l.offers.length} variants` : ""}
+                        {l.url ? (
+                          <>
+                            {" "}
+                            —{" "}
+                            <a href={l.url} target="_blank" rel="noreferrer">
+                              lien
+                            </a>
+                          </>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                  {preview.rejected.length ? (
+                    <div style={{ color: "#8a5a00" }}>
+                      Rejetés : {preview.rejected.map((r) => `${r.url} (${r.reason})`).join(" · ")}
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+
+      <h3>File de scrape</h3>
+      <ul style={{ fontSize: 13 }}>
+        {jobs.map((j) => (
+          <li key={j.id}>
+            <b>{j.type}</b>{" "}
+            {j.type === "url" ? j.url : j.source_id ? (sources.find((s) => s.id === j.source_id)?.url ?? j.source_id) : ""}{" "}
+            — {j.status}
+            {j.attempts ? ` (tentative ${j.attempts}/${j.max_attempts})` : ""} —{" "}
+            {new Date(j.created_at).toLocaleString()}
+            {j.status === "queued" && j.attempts > 0
+              ? ` — retry à ${new Date(j.run_after).toLocaleTimeString()}`
+              : ""}
+            {j.last_error ? <span style={{ color: "#b00020" }}> — {j.last_error}</span> : null}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,392 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { adminFetch } from "../../lib/adminClient";
+import type { Listing } from "../../lib/listings";
+import { SELECT_FIELDS } from "../../lib/listings";
+import { supabase } from "../../lib/supabaseClient";
+import type { CompareType, VariantDef } from "../../lib/variants";
+import {
+  COMPARE_TYPES,
+  fetchVariants,
+  includesAny,
+  listingMatchesVariant,
+  needlesForTerm,
+  needlesForVariant,
+  textForMatch,
+} from "../../lib/variants";
+
+// nb de titres affichés par ligne d'aperçu
+const SAMPLE_SIZE = 5;
+
+function splitWords(s: string): string[] {
+  return s
+    .split(",")
+    .map((w) => w.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/* ===================== APERÇU (listings actuels) ===================== */
+
+function Preview({ label, items, tone }: { label: string; items: Listing[]; tone: "match" | "removed" }) {
+  return (
+    <div style={{ marginTop: 4 }}>
+      <span style={{ fontWeight: 700, color: tone === "removed" ? "#b00020" : "#0a6b2b" }}>
+        {label} : {items.length}
+      </span>
+      {items.length ? (
+        <span style={{ opacity: 0.7 }}>
+          {" "}
+          — {items
+            .slice(0, SAMPLE_SIZE)
+            .map((l) => l.title_raw)
+            .join(" · ")}
+          {items.length > SAMPLE_SIZE ? " · …" : ""}
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * ✅ Admin taxonomie (coral_variants + variant_aliases) :
+ * créer / renommer / fusionner / supprimer des variantes et leurs alias,
+ * avec aperçu LIVE des listings actuels que chaque alias attrape / que chaque exclusion retire
+ */
+export default function VariantTaxonomy() {
+  const [type, setType] = useState<CompareType>("torch");
+  const [variants, setVariants] = useState<VariantDef[]>([]);
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+
+  // variante ouverte + brouillons (aperçu live avant enregistrement)
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState("");
+  const [draftAlias, setDraftAlias] = useState("");
+  const [draftExclude, setDraftExclude] = useState("");
+  const [imageUrl, setImageUrl] = useState("");
+  const [mergeInto, setMergeInto] = useState("");
+
+  const loadVariants = async () => {
+    try {
+      setVariants(await fetchVariants(supabase, type));
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Erreur variantes");
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      setMsg(null);
+      setOpenId(null);
+
+      try {
+        const next = await fetchVariants(supabase, type);
+        if (!cancelled) setVariants(next);
+      } catch (e) {
+        if (!cancelled) setMsg(e instanceof Error ? e.message : "Erreur variantes");
+      }
+
+      // listings du type = base de l'aperçu
+      const { data, error } = await supabase
+        .from("listings")
+        .select(SELECT_FIELDS)
+        .is("retired_at", null)
+        .eq("coral_type", type)
+        .order("created_at", { ascending: false })
+        .limit(4000);
+
+      if (cancelled) return;
+      if (error) setMsg("Erreur listings: " + error.message);
+      setListings((data as Listing[]) ?? []);
+    }
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [type]);
+
+  const open = variants.find((v) => v.id === openId) ?? null;
+
+  const openVariant = (v: VariantDef) => {
+    setOpenId(v.id === openId ? null : v.id);
+    setRenameTo(v.name);
+    setDraftAlias("");
+    setDraftExclude("");
+    setImageUrl(v.image ?? "");
+    setMergeInto("");
+  };
+
+  const counts = useMemo(() => {
+    const m = new Map<string, number>();
+    for (const v of variants) m.set(v.id ?? v.slug, listings.filter((l) => listingMatchesVariant(l, type, v)).length);
+    return m;
+  }, [variants, listings, type]);
+
+  // ✅ aperçu : ce que chaque terme attrape, ce que chaque exclusion retire
+  const preview = useMemo(() => {
+    if (!open) return null;
+
+    const matchTerm = (term: string) => listings.filter((l) => includesAny(textForMatch(l), needlesForTerm(term)));
+
+    const draftEx = splitWords(draftExclude);
+    const withDraft: VariantDef = {
+      ...open,
+      aliases: draftAlias.trim() ? [...open.aliases, draftAlias.trim().toLowerCase()] : open.aliases,
+      exclude: [...open.exclude, ...draftEx],
+    };
+
+    const needles = needlesForVariant(withDraft);
+    const candidates = listings.filter((l) => includesAny(textForMatch(l), needles));
+
+    return {
+      terms: [open.name, ...open.aliases].map((t) => ({ term: t, items: matchTerm(t) })),
+      draftAlias: draftAlias.trim() ? matchTerm(draftAlias) : null,
+      excludes: withDraft.exclude.map((w) => ({
+        word: w,
+        draft: draftEx.includes(w) && !open.exclude.includes(w),
+        items: candidates.filter((l) => includesAny(textForMatch(l), [w])),
+      })),
+      final: listings.filter((l) => listingMatchesVariant(l, type, withDraft)),
+    };
+  }, [open, listings, draftAlias, draftExclude, type]);
+
+  /* ===================== ACTIONS ===================== */
+
+  const write = async (label: string, fn: () => Promise<{ error: { message: string } | null }>) => {
+    setMsg(null);
+    const { error } = await fn();
+    if (error) {
+      setMsg(`Erreur (${label}): ${error.message}`);
+      return false;
+    }
+    await loadVariants();
+    return true;
+  };
+
+  const createVariant = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const ok = await write("create variant", async () =>
+      adminFetch("variants", "POST", { coral_type: type, name, position: variants.length + 1 })
+    );
+    if (ok) setNewName("");
+  };
+
+  const renameVariant = async (v: VariantDef) => {
+    const name = renameTo.trim();
+    if (!v.id || !name || name === v.name) return;
+
+    await write("rename", async () => adminFetch(`variants/${v.id}`, "PATCH", { name }));
+  };
+
+  const saveImage = async (v: VariantDef) => {
+    if (!v.id) return;
+    await write("image", async () =>
+      adminFetch(`variants/${v.id}`, "PATCH", { image_url: imageUrl.trim() || null })
+    );
+  };
+
+  const toggleImplies = async (v: VariantDef) => {
+    if (!v.id) return;
+    await write("implies_type", async () =>
+      adminFetch(`variants/${v.id}`, "PATCH", { implies_type: !v.impliesType })
+    );
+  };
+
+  const addAlias = async (v: VariantDef) => {
+    const alias = draftAlias.trim().toLowerCase();
+    if (!v.id || !alias) return;
+
+    const ok = await write("add alias", async () => adminFetch(`variants/${v.id}/aliases`, "POST", { alias }));
+    if (ok) setDraftAlias("");
+  };
+
+  const removeAlias = async (v: VariantDef, alias: string) => {
+    if (!v.id) return;
+    await write("remove alias", async () => adminFetch(`variants/${v.id}/aliases`, "DELETE", { alias }));
+  };
+
+  const addExcludes = async (v: VariantDef) => {
+    const words = splitWords(draftExclude).filter((w) => !v.exclude.includes(w));
+    if (!v.id || !words.length) return;
+
+    const ok = await write("add exclusion", async () =>
+      adminFetch(`variants/${v.id}`, "PATCH", { exclude_words: [...v.exclude, ...words] })
+    );
+    if (ok) setDraftExclude("");
+  };
+
+  const removeExclude = async (v: VariantDef, word: string) => {
+    if (!v.id) return;
+    await write("remove exclusion", async () =>
+      adminFetch(`variants/${v.id}`, "PATCH", { exclude_words: v.exclude.filter((w) => w !== word) })
+    );
+  };
+
+  // ✅ fusion : le nom + les alias + les exclusions de la source passent sur la cible, puis la source est supprimée
+  const mergeVariant = async (source: VariantDef) => {
+    const target = variants.find((v) => v.id === mergeInto);
+    if (!source.id || !target?.id) return;
+    if (!confirm(`Fusionner "${source.name}" dans "${target.name}" ?`)) return;
+
+    // alias + exclusions + suppression de la source : côté serveur (/api/admin/variants/[id]/merge)
+    const ok = await write("merge", async () => adminFetch(`variants/${source.id}/merge`, "POST", { into: target.id }));
+
+    if (ok) setOpenId(target.id);
+  };
+
+  const deleteVariant = async (v: VariantDef) => {
+    if (!v.id || !confirm(`Supprimer "${v.name}" et ses alias ?`)) return;
+    const ok = await write("delete variant", async () => adminFetch(`variants/${v.id}`, "DELETE"));
+    if (ok && openId === v.id) setOpenId(null);
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <section>
+      <h2>Variantes (taxonomie)</h2>
+
+      {msg && (
+        <div style={{ marginTop: 8, padding: 10, background: "#fff3cd", borderRadius: 8 }}>
+          {msg}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+        <select value={type} onChange={(e) => setType(e.target.value as CompareType)}>
+          {Object.values(COMPARE_TYPES).map((t) => (
+            <option key={t.type} value={t.type}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+
+        <input
+          placeholder="Nouvelle variante (ex: Hellfire)"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button onClick={createVariant}>Ajouter variante</button>
+
+        <span style={{ opacity: 0.7 }}>{listings.length} listing(s) {type} pour l’aperçu</span>
+      </div>
+
+      <ul style={{ marginTop: 12 }}>
+        {variants.map((v) => (
+          <li key={v.id ?? v.slug} style={{ marginBottom: 8 }}>
+            <div>
+              <button onClick={() => openVariant(v)}>{openId === v.id ? "▾" : "▸"}</button>{" "}
+              <b>{v.name}</b>{" "}
+              <span style={{ opacity: 0.7 }}>
+                — /{v.slug} — {counts.get(v.id ?? v.slug) ?? 0} listing(s)
+                {v.aliases.length ? ` — alias: ${v.aliases.join(", ")}` : ""}
+                {v.exclude.length ? ` — exclus: ${v.exclude.join(", ")}` : ""}
+                {v.impliesType ? "" : " — (ne devine pas le type)"}
+              </span>{" "}
+              <button onClick={() => deleteVariant(v)}>❌</button>
+            </div>
+
+            {open && open.id === v.id && preview ? (
+              <div style={{ margin: "8px 0 12px 28px", padding: 10, background: "#f4f6fa", borderRadius: 8 }}>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  <input value={renameTo} onChange={(e) => setRenameTo(e.target.value)} />
+                  <button onClick={() => renameVariant(v)}>Renommer</button>
+
+                  <input
+                    placeholder="Image URL"
+                    value={imageUrl}
+                    onChange={(e) => setImageUrl(e.target.value)}
+                    style={{ minWidth: 240 }}
+                  />
+                  <button onClick={() => saveImage(v)}>Image</button>
+
+                  <label>
+                    <input type="checkbox" checked={v.impliesType} onChange={() => toggleImplies(v)} /> le nom seul
+                    suffit à deviner le type
+                  </label>
+                </div>
+
+                {/* alias */}
+                <div style={{ marginTop: 10 }}>
+                  <b>Termes</b>
+                  {preview.terms.map((t) => (
+                    <div key={t.term} style={{ display: "flex", gap: 6, alignItems: "baseline" }}>
+                      <Preview label={`"${t.term}"`} items={t.items} tone="match" />
+                      {t.term !== v.name ? <button onClick={() => removeAlias(v, t.term)}>❌</button> : null}
+                    </div>
+                  ))}
+
+                  <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                    <input
+                      placeholder="Nouvel alias (ex: hell fire)"
+                      value={draftAlias}
+                      onChange={(e) => setDraftAlias(e.target.value)}
+                    />
+                    <button onClick={() => addAlias(v)}>Ajouter alias</button>
+                  </div>
+                  {preview.draftAlias ? (
+                    <Preview label={`aperçu "${draftAlias.trim()}"`} items={preview.draftAlias} tone="match" />
+                  ) : null}
+                </div>
+
+                {/* exclusions */}
+                <div style={{ marginTop: 10 }}>
+                  <b>Exclusions</b>
+                  {preview.excludes.map((x) => (
+                    <div key={x.word} style={{ display: "flex", gap: 6, alignItems: "baseline" }}>
+                      <Preview
+                        label={`${x.draft ? "aperçu " : ""}"${x.word}" retire`}
+                        items={x.items}
+                        tone="removed"
+                      />
+                      {!x.draft ? <button onClick={() => removeExclude(v, x.word)}>❌</button> : null}
+                    </div>
+                  ))}
+
+                  <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                    <input
+                      placeholder="Mots exclus, séparés par des virgules (ex: joker)"
+                      value={draftExclude}
+                      onChange={(e) => setDraftExclude(e.target.value)}
+                      style={{ minWidth: 300 }}
+                    />
+                    <button onClick={() => addExcludes(v)}>Ajouter exclusion</button>
+                  </div>
+                </div>
+
+                <div style={{ marginTop: 10 }}>
+                  <Preview label="Résultat (avec brouillons)" items={preview.final} tone="match" />
+                </div>
+
+                {/* fusion */}
+                <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                  <select value={mergeInto} onChange={(e) => setMergeInto(e.target.value)}>
+                    <option value="">Fusionner dans…</option>
+                    {variants
+                      .filter((o) => o.id !== v.id)
+                      .map((o) => (
+                        <option key={o.id ?? o.slug} value={o.id ?? ""}>
+                          {o.name}
+                        </option>
+                      ))}
+                  </select>
+                  <button onClick={() => mergeVariant(v)} disabled={!mergeInto}>
+                    Fusionner
+                  </button>
+                </div>
+              </div>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { adminFetch } from "../../lib/adminClient";
+import { OVERRIDE_FIELDS } from "../../lib/scraper/overrides";
+import type { ListingOverride, OverrideField } from "../../lib/scraper/overrides";
 import { supabase } from "../../lib/supabaseClient";
+import ScrapeSources from "./ScrapeSources";
+import VariantTaxonomy from "./VariantTaxonomy";
 
 type Shop = {
   id: string;
@@ -27,16 +32,39 @@ type Listing = {
   unit_count: number | null;
 
   created_at: string;
+  retired_at: string | null; // plus vu chez le shop : masqué sur les pages (historique gardé)
 };
 
+// listing_overrides : corrections épinglées sur (shop_id, url), réappliquées par le scraper
+const overrideKey = (shop_id: string, url: string) => `${shop_id}|${url}`;
+
 type SaleMode = "wysiwyg" | "per_unit";
 type UnitType = "head" | "polyp" | "frag";
 
+// valeurs saisies dans le formulaire listing (ajout + édition)
+type ListingForm = {
+  shopId: string;
+  titleRaw: string;
+  variant: string;
+  imageUrl: string;
+  listingUrl: string;
+  priceCad: string;
+  salePriceCad: string;
+  category: string;
+  coralType: string;
+  status: string;
+  saleMode: SaleMode;
+  unitType: UnitType;
+  unitCount: string;
+};
+
 export default function AdminPage() {
   // =========================
   // AUTH
   // =========================
+  // ✅ session = cookie httpOnly signé par /api/admin/session (mot de passe vérifié côté serveur)
   const [authorized, setAuthorized] = useState(false);
+  const [checkingSession, setCheckingSession] = useState(true);
   const [password, setPassword] = useState("");
 
   // =========================
@@ -55,6 +83,7 @@ export default function AdminPage() {
   // LISTINGS
   // =========================
   const [listings, setListings] = useState<Listing[]>([]);
+  const [overrides, setOverrides] = useState<Map<string, ListingOverride>>(new Map());
 
   // Form (ADD + EDIT)
   const [editingListingId, setEditingListingId] = useState<string | null>(null);
@@ -67,6 +96,7 @@ export default function AdminPage() {
   const [priceCad, setPriceCad] = useState("");
   const [salePriceCad, setSalePriceCad] = useState("");
   const [category, setCategory] = useState("torch");
+  const [coralType, setCoralType] = useState("torch");
   const [status, setStatus] = useState("available");
 
   // WYSIWYG / per-unit
@@ -102,7 +132,7 @@ export default function AdminPage() {
     const { data, error } = await supabase
       .from("listings")
       .select(
-        "id, shop_id, title_raw, url, price_cad, sale_price_cad, status, category, coral_type, variant, image_url, sale_mode, unit_type, unit_count, created_at"
+        "id, shop_id, title_raw, url, price_cad, sale_price_cad, status, category, coral_type, variant, image_url, sale_mode, unit_type, unit_count, created_at, retired_at"
       )
       .order("created_at", { ascending: false })
       .limit(200);
@@ -115,10 +145,52 @@ export default function AdminPage() {
     setListings((data as Listing[]) ?? []);
   };
 
+  // listing_overrides : pas lisible avec la clé anon => route admin
+  const loadOverrides = async () => {
+    const { data, error } = await adminFetch<ListingOverride[]>("overrides", "GET");
+
+    if (error) {
+      setMsg("Erreur overrides: " + error.message);
+      return;
+    }
+
+    const m = new Map<string, ListingOverride>();
+    ((data as ListingOverride[]) ?? []).forEach((o) => m.set(overrideKey(o.shop_id, o.url), o));
+    setOverrides(m);
+  };
+
   const refreshAll = async () => {
     setMsg(null);
     await loadShops();
     await loadListings();
+    await loadOverrides();
+  };
+
+  useEffect(() => {
+    fetch("/api/admin/session", { credentials: "same-origin" })
+      .then((r) => r.json())
+      .then((j: { authorized?: boolean }) => setAuthorized(!!j.authorized))
+      .catch(() => setAuthorized(false))
+      .finally(() => setCheckingSession(false));
+  }, []);
+
+  const login = async () => {
+    const res = await fetch("/api/admin/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+      credentials: "same-origin",
+    });
+    const j = (await res.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+
+    setPassword("");
+    if (res.ok && j?.ok) setAuthorized(true);
+    else alert(j?.error || "Connexion impossible");
+  };
+
+  const logout = async () => {
+    await fetch("/api/admin/session", { method: "DELETE", credentials: "same-origin" });
+    setAuthorized(false);
   };
 
   useEffect(() => {
@@ -130,6 +202,10 @@ export default function AdminPage() {
   // =========================
   // LOGIN
   // =========================
+  if (checkingSession) {
+    return <main style={{ padding: 40 }}>Chargement…</main>;
+  }
+
   if (!authorized) {
     return (
       <main style={{ padding: 40 }}>
@@ -140,19 +216,11 @@ export default function AdminPage() {
           placeholder="Mot de passe admin"
           value={password}
           onChange={(e) => setPassword(e.target.value)}
-        />
-        <button
-          onClick={() => {
-            const expected = process.env.NEXT_PUBLIC_ADMIN_PASSWORD;
-            if (!expected) {
-              alert("NEXT_PUBLIC_ADMIN_PASSWORD manquant");
-              return;
-            }
-            if (password === expected) setAuthorized(true);
-            else alert("Mot de passe incorrect");
+          onKeyDown={(e) => {
+            if (e.key === "Enter") login();
           }}
-          style={{ marginLeft: 8 }}
-        >
+        />
+        <button onClick={login} style={{ marginLeft: 8 }}>
           Entrer
         </button>
       </main>
@@ -172,6 +240,15 @@ export default function AdminPage() {
     return "—";
   };
 
+  const overrideOf = (l: Listing) => (l.url ? overrides.get(overrideKey(l.shop_id, l.url)) : undefined);
+
+  // champs surchargés (affichés à côté du listing)
+  const overriddenFields = (l: Listing): OverrideField[] => {
+    const o = overrideOf(l);
+    if (!o) return [];
+    return OVERRIDE_FIELDS.filter((f) => o[f] != null);
+  };
+
   const resetForm = () => {
     setEditingListingId(null);
     setTitleRaw("");
@@ -181,6 +258,7 @@ export default function AdminPage() {
     setPriceCad("");
     setSalePriceCad("");
     setCategory("torch");
+    setCoralType("torch");
     setStatus("available");
     setSaleMode("wysiwyg");
     setUnitType("head");
@@ -207,6 +285,58 @@ export default function AdminPage() {
     return i > 0 ? i : null;
   };
 
+  const currentForm = (): ListingForm => ({
+    shopId: selectedShopId,
+    titleRaw,
+    variant,
+    imageUrl,
+    listingUrl,
+    priceCad,
+    salePriceCad,
+    category,
+    coralType,
+    status,
+    saleMode,
+    unitType,
+    unitCount,
+  });
+
+  const formOf = (l: Listing): ListingForm => ({
+    shopId: l.shop_id,
+    titleRaw: l.title_raw ?? "",
+    variant: l.variant ?? "",
+    imageUrl: l.image_url ?? "",
+    listingUrl: l.url ?? "",
+    priceCad: l.price_cad != null ? String(l.price_cad) : "",
+    salePriceCad: l.sale_price_cad != null ? String(l.sale_price_cad) : "",
+    category: l.category ?? "torch",
+    coralType: l.coral_type ?? "",
+    status: l.status ?? "available",
+    saleMode: l.sale_mode === "per_unit" ? "per_unit" : "wysiwyg",
+    unitType: l.unit_type === "polyp" ? "polyp" : l.unit_type === "frag" ? "frag" : "head",
+    unitCount: l.unit_count != null ? String(l.unit_count) : "",
+  });
+
+  // ✅ même normalisation pour l'ajout, l'édition et l'état de départ (comparaison champ par champ)
+  const payloadOf = (f: ListingForm) => {
+    const perUnit = f.saleMode === "per_unit";
+    return {
+      shop_id: f.shopId,
+      title_raw: f.titleRaw.trim(),
+      url: f.listingUrl.trim() || null,
+      price_cad: parseNumberOrNull(f.priceCad),
+      sale_price_cad: parseNumberOrNull(f.salePriceCad),
+      category: f.category,
+      status: f.status,
+      coral_type: f.coralType.trim() || null,
+      variant: f.variant.trim().toLowerCase() || null,
+      image_url: f.imageUrl.trim() || null,
+      sale_mode: f.saleMode,
+      unit_type: perUnit ? f.unitType : null,
+      unit_count: perUnit ? parseIntOrNull(f.unitCount) : null,
+    };
+  };
+
   // =========================
   // SHOPS ACTIONS
   // =========================
@@ -214,7 +344,7 @@ export default function AdminPage() {
     setMsg(null);
     if (!shopName.trim()) return;
 
-    const { error } = await supabase.from("shops").insert({
+    const { error } = await adminFetch("shops", "POST", {
       name: shopName.trim(),
       website_url: shopUrl.trim() || null,
     });
@@ -231,7 +361,7 @@ export default function AdminPage() {
 
   const deleteShop = async (id: string) => {
     setMsg(null);
-    const { error } = await supabase.from("shops").delete().eq("id", id);
+    const { error } = await adminFetch(`shops/${id}`, "DELETE");
     if (error) {
       setMsg("Erreur (delete shop): " + error.message);
       return;
@@ -246,27 +376,7 @@ export default function AdminPage() {
     setMsg(null);
     if (!selectedShopId || !titleRaw.trim()) return;
 
-    const price = parseNumberOrNull(priceCad);
-    const salePrice = parseNumberOrNull(salePriceCad);
-
-    const unitCountNum =
-      saleMode === "per_unit" ? parseIntOrNull(unitCount) : null;
-
-    const { error } = await supabase.from("listings").insert({
-      shop_id: selectedShopId,
-      title_raw: titleRaw.trim(),
-      url: listingUrl.trim() || null,
-      price_cad: price,
-      sale_price_cad: salePrice,
-      category,
-      status,
-      coral_type: "torch",
-      variant: variant.trim().toLowerCase() || null,
-      image_url: imageUrl.trim() || null,
-      sale_mode: saleMode,
-      unit_type: saleMode === "per_unit" ? unitType : null,
-      unit_count: saleMode === "per_unit" ? unitCountNum : null,
-    });
+    const { error } = await adminFetch("listings", "POST", payloadOf(currentForm()));
 
     if (error) {
       setMsg("Erreur (add listing): " + error.message);
@@ -281,28 +391,20 @@ export default function AdminPage() {
     setMsg(null);
     setEditingListingId(l.id);
 
-    setSelectedShopId(l.shop_id);
-    setTitleRaw(l.title_raw ?? "");
-    setVariant(l.variant ?? "");
-    setImageUrl(l.image_url ?? "");
-    setListingUrl(l.url ?? "");
-    setPriceCad(l.price_cad != null ? String(l.price_cad) : "");
-    setSalePriceCad(l.sale_price_cad != null ? String(l.sale_price_cad) : "");
-    setCategory(l.category ?? "torch");
-    setStatus(l.status ?? "available");
-
-    const sm: SaleMode = l.sale_mode === "per_unit" ? "per_unit" : "wysiwyg";
-    setSaleMode(sm);
-
-    const ut: UnitType =
-      l.unit_type === "polyp"
-        ? "polyp"
-        : l.unit_type === "frag"
-        ? "frag"
-        : "head";
-    setUnitType(ut);
-
-    setUnitCount(l.unit_count != null ? String(l.unit_count) : "");
+    const f = formOf(l);
+    setSelectedShopId(f.shopId);
+    setTitleRaw(f.titleRaw);
+    setVariant(f.variant);
+    setImageUrl(f.imageUrl);
+    setListingUrl(f.listingUrl);
+    setPriceCad(f.priceCad);
+    setSalePriceCad(f.salePriceCad);
+    setCategory(f.category);
+    setCoralType(f.coralType);
+    setStatus(f.status);
+    setSaleMode(f.saleMode);
+    setUnitType(f.unitType);
+    setUnitCount(f.unitCount);
 
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
@@ -312,32 +414,22 @@ export default function AdminPage() {
     if (!editingListingId) return;
     if (!selectedShopId || !titleRaw.trim()) return;
 
-    const price = parseNumberOrNull(priceCad);
-    const salePrice = parseNumberOrNull(salePriceCad);
-
-    const unitCountNum =
-      saleMode === "per_unit" ? parseIntOrNull(unitCount) : null;
-
-    const payload = {
-      shop_id: selectedShopId,
-      title_raw: titleRaw.trim(),
-      url: listingUrl.trim() || null,
-      price_cad: price,
-      sale_price_cad: salePrice,
-      category,
-      status,
-      coral_type: "torch",
-      variant: variant.trim().toLowerCase() || null,
-      image_url: imageUrl.trim() || null,
-      sale_mode: saleMode,
-      unit_type: saleMode === "per_unit" ? unitType : null,
-      unit_count: saleMode === "per_unit" ? unitCountNum : null,
-    };
+    // ✅ SEULEMENT les champs modifiés par l'admin : un champ renvoyé tel quel mais normalisé
+    // (variant "3 Heads" => "3 heads") serait épinglé par la route et figerait les prochains scrapes
+    const original = listings.find((l) => l.id === editingListingId);
+    const payload = payloadOf(currentForm());
+    const before = original ? payloadOf(formOf(original)) : null;
+    const changed = before
+      ? Object.fromEntries(Object.entries(payload).filter(([k, v]) => v !== before[k as keyof typeof before]))
+      : payload;
+
+    if (Object.keys(changed).length === 0) {
+      resetForm();
+      return;
+    }
 
-    const { error } = await supabase
-      .from("listings")
-      .update(payload)
-      .eq("id", editingListingId);
+    // ✅ listing scrapé (url) : la route épingle aussi les champs modifiés dans listing_overrides
+    const { error } = await adminFetch(`listings/${editingListingId}`, "PATCH", changed);
 
     if (error) {
       setMsg("Erreur (update listing): " + error.message);
@@ -346,11 +438,40 @@ export default function AdminPage() {
 
     resetForm();
     await loadListings();
+    await loadOverrides();
+  };
+
+  // ✅ masquer = override hidden (le scraper ne le réinsère plus) + suppression de la ligne
+  const hideListing = async (l: Listing) => {
+    setMsg(null);
+    if (!l.url) return;
+
+    const { error: oErr } = await adminFetch("overrides", "PUT", { shop_id: l.shop_id, url: l.url, hidden: true });
+    if (oErr) {
+      setMsg("Erreur (hide listing): " + oErr.message);
+      return;
+    }
+
+    await deleteListing(l.id);
+    await loadOverrides();
+  };
+
+  // retour aux valeurs du shop au prochain scrape
+  const clearOverride = async (l: Listing) => {
+    setMsg(null);
+    if (!l.url) return;
+
+    const { error } = await adminFetch("overrides", "DELETE", { shop_id: l.shop_id, url: l.url });
+    if (error) {
+      setMsg("Erreur (clear override): " + error.message);
+      return;
+    }
+    await loadOverrides();
   };
 
   const deleteListing = async (id: string) => {
     setMsg(null);
-    const { error } = await supabase.from("listings").delete().eq("id", id);
+    const { error } = await adminFetch(`listings/${id}`, "DELETE");
     if (error) {
       setMsg("Erreur (delete listing): " + error.message);
       return;
@@ -364,7 +485,12 @@ export default function AdminPage() {
   // =========================
   return (
     <main style={{ padding: 24 }}>
-      <h1>Admin</h1>
+      <h1>
+        Admin{" "}
+        <button onClick={logout} style={{ fontSize: 14, marginLeft: 8 }}>
+          Déconnexion
+        </button>
+      </h1>
 
       {msg && (
         <div
@@ -515,6 +641,13 @@ export default function AdminPage() {
           <option value="zoa">zoa</option>
         </select>
 
+        <input
+          placeholder="coral_type (ex: torch)"
+          value={coralType}
+          onChange={(e) => setCoralType(e.target.value.trim().toLowerCase())}
+          style={{ width: 160 }}
+        />
+
         <select value={status} onChange={(e) => setStatus(e.target.value)}>
           <option value="available">available</option>
           <option value="sold">sold</option>
@@ -534,6 +667,7 @@ export default function AdminPage() {
       <ul style={{ marginTop: 12 }}>
         {listings.map((l) => {
           const shop = shopsById.get(l.shop_id);
+          const pinned = overriddenFields(l);
           return (
             <li key={l.id} style={{ marginBottom: 10 }}>
               <div>
@@ -541,9 +675,17 @@ export default function AdminPage() {
                 <span style={{ opacity: 0.7 }}>
                   — variant: {l.variant ?? "—"} — {shop?.name ?? l.shop_id} —{" "}
                   {l.category} — {l.status} — {saleLabel(l)}
+                  {l.retired_at ? ` — retiré le ${new Date(l.retired_at).toLocaleDateString()}` : ""}
                 </span>
               </div>
 
+              {pinned.length > 0 ? (
+                <div style={{ fontSize: 13, color: "#8a5a00" }}>
+                  🔒 surchargé : {pinned.join(", ")}{" "}
+                  <button onClick={() => clearOverride(l)}>Retirer</button>
+                </div>
+              ) : null}
+
               <div style={{ opacity: 0.9 }}>
                 Prix: {l.price_cad ?? "—"} CAD
                 {l.sale_price_cad != null ? ` (soldé: ${l.sale_price_cad} CAD)` : ""}
@@ -571,11 +713,27 @@ export default function AdminPage() {
                 {" "}
                 <button onClick={() => startEdit(l)}>✏️</button>{" "}
                 <button onClick={() => deleteListing(l.id)}>❌</button>
+                {l.url ? (
+                  <>
+                    {" "}
+                    <button onClick={() => hideListing(l)} title="Ne plus afficher (survit aux scrapes)">
+                      🙈 Masquer
+                    </button>
+                  </>
+                ) : null}
               </div>
             </li>
           );
         })}
       </ul>
+
+      <hr style={{ margin: "20px 0" }} />
+
+      <ScrapeSources shops={shops} />
+
+      <hr style={{ margin: "20px 0" }} />
+
+      <VariantTaxonomy />
     </main>
   );
 }
@@ -0,0 +1,42 @@
+import { check, readJson, withAdmin } from "../../../../lib/adminAuth";
+import { PRIORITY_MANUAL, enqueueFailedSources, enqueueJob } from "../../../../lib/scraper/jobs";
+
+export const dynamic = "force-dynamic";
+
+const JOB_FIELDS =
+  "id, type, source_id, url, priority, status, attempts, max_attempts, run_after, run_id, last_error, created_at, finished_at";
+
+// derniers jobs (file + historique récent)
+export async function GET() {
+  return withAdmin(async (supabase) =>
+    check(await supabase.from("scrape_jobs").select(JOB_FIELDS).order("created_at", { ascending: false }).limit(30))
+  );
+}
+
+/**
+ * ✅ { type: "source", source_id } : "rescraper maintenant"
+ * { type: "url", url, source_id? } / { type: "full" }
+ * { retry_failed: true, run_id? } : 1 job par source en échec du dernier run
+ * (traités au prochain passage du worker : cron ?resume=1 ou npm run scrape:worker)
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) => {
+    if (body.retry_failed) {
+      const run_id = typeof body.run_id === "string" ? body.run_id : null;
+      return { sources: await enqueueFailedSources(supabase, run_id) };
+    }
+
+    const { type, source_id, url } = body;
+    if (type !== "full" && type !== "source" && type !== "url") throw new Error("Unknown job type");
+    if (type === "source" && typeof source_id !== "string") throw new Error("Missing source_id");
+    if (type === "url" && typeof url !== "string") throw new Error("Missing url");
+
+    return enqueueJob(supabase, {
+      type,
+      source_id: typeof source_id === "string" ? source_id : null,
+      url: typeof url === "string" ? url : null,
+      priority: PRIORITY_MANUAL,
+    });
+  });
+}
@@ -0,0 +1,73 @@
+import { check, pick, readJson, withAdmin } from "../../../../../lib/adminAuth";
+import { EDITABLE_FIELDS } from "../../../../../lib/listings";
+import { OVERRIDE_FIELDS } from "../../../../../lib/scraper/overrides";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// variant / coral_type : comparés en minuscules (le formulaire admin les normalise ainsi)
+const CASE_INSENSITIVE = new Set<string>(["variant", "coral_type"]);
+
+// ✅ "3 Heads" (scrapé) et "3 heads" (renvoyé par le formulaire) = même valeur => pas d'override
+function normalized(field: string, v: unknown): unknown {
+  if (v == null) return null;
+  if (typeof v !== "string") return v;
+  const t = v.trim();
+  if (!t) return null;
+  return CASE_INSENSITIVE.has(field) ? t.toLowerCase() : t;
+}
+
+/**
+ * ✅ correction admin :
+ * listing scrapé (url) => les champs modifiés sont AUSSI épinglés dans listing_overrides,
+ * sinon le prochain scrape écrase la correction
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const body = await readJson(req);
+
+  return withAdmin(async (supabase) => {
+    const before = check(
+      await supabase
+        .from("listings")
+        .select(`shop_id, url, ${OVERRIDE_FIELDS.join(", ")}`)
+        .eq("id", id)
+        .maybeSingle()
+    ) as Record<string, unknown> | null;
+    if (!before) throw new Error("Listing not found");
+
+    const row = pick(body, EDITABLE_FIELDS);
+    // ✅ autre image => l'ancien miroir ne correspond plus (re-mirroré au prochain scrape)
+    if ("image_url" in row && row.image_url !== before.image_url) {
+      row.image_mirror_url = null;
+      row.image_thumb_url = null;
+    }
+    check(await supabase.from("listings").update(row).eq("id", id));
+
+    const shop_id = row.shop_id ?? before.shop_id;
+    const url = row.url ?? before.url;
+    if (!url) return { pinned: [] };
+
+    const changed = OVERRIDE_FIELDS.filter(
+      (f) => f in row && row[f] != null && normalized(f, row[f]) !== normalized(f, before[f])
+    );
+    if (changed.length > 0) {
+      // upsert partiel : les autres champs déjà épinglés restent tels quels
+      check(
+        await supabase
+          .from("listing_overrides")
+          .upsert(
+            { shop_id, url, ...pick(row, changed), updated_at: new Date().toISOString() },
+            { onConflict: "shop_id,url" }
+          )
+      );
+    }
+    return { pinned: changed };
+  });
+}
+
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  return withAdmin(async (supabase) => check(await supabase.from("listings").delete().eq("id", id)));
+}
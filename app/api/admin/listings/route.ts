@@ -0,0 +1,15 @@
+import { check, pick, readJson, withAdmin } from "../../../../lib/adminAuth";
+import { EDITABLE_FIELDS } from "../../../../lib/listings";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) => {
+    const row = pick(body, EDITABLE_FIELDS);
+    if (!row.shop_id || typeof row.title_raw !== "string" || !row.title_raw.trim()) {
+      throw new Error("Missing shop_id / title_raw");
+    }
+    return check(await supabase.from("listings").insert(row).select("id").single());
+  });
+}
@@ -0,0 +1,44 @@
+import { check, pick, readJson, withAdmin } from "../../../../lib/adminAuth";
+import { OVERRIDE_FIELDS } from "../../../../lib/scraper/overrides";
+
+export const dynamic = "force-dynamic";
+
+/* ================= listing_overrides (clé shop_id + url) ================= */
+
+function keyOf(body: Record<string, unknown>) {
+  const { shop_id, url } = body;
+  if (typeof shop_id !== "string" || typeof url !== "string" || !shop_id || !url) {
+    throw new Error("Missing shop_id / url");
+  }
+  return { shop_id, url };
+}
+
+export async function GET() {
+  return withAdmin(async (supabase) =>
+    check(await supabase.from("listing_overrides").select(`shop_id, url, hidden, ${OVERRIDE_FIELDS.join(", ")}`))
+  );
+}
+
+// upsert partiel (ex: { shop_id, url, hidden: true } pour masquer)
+export async function PUT(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) =>
+    check(
+      await supabase
+        .from("listing_overrides")
+        .upsert(
+          { ...keyOf(body), ...pick(body, [...OVERRIDE_FIELDS, "hidden"]), updated_at: new Date().toISOString() },
+          { onConflict: "shop_id,url" }
+        )
+    )
+  );
+}
+
+// retour aux valeurs du shop au prochain scrape
+export async function DELETE(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) => {
+    const { shop_id, url } = keyOf(body);
+    return check(await supabase.from("listing_overrides").delete().eq("shop_id", shop_id).eq("url", url));
+  });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import {
+  ADMIN_COOKIE,
+  SESSION_TTL_S,
+  createSessionToken,
+  isAdminConfigured,
+  isAdminRequest,
+  readJson,
+  verifyAdminPassword,
+} from "../../../../lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+/* ================= API ================= */
+
+// session en cours ?
+export async function GET() {
+  return NextResponse.json({ ok: true, authorized: await isAdminRequest() });
+}
+
+// login : mot de passe vérifié côté serveur => cookie httpOnly signé
+export async function POST(req: Request) {
+  if (!isAdminConfigured()) {
+    return NextResponse.json(
+      { ok: false, error: "ADMIN_PASSWORD_HASH / ADMIN_SESSION_SECRET manquants" },
+      { status: 500 }
+    );
+  }
+
+  const { password } = await readJson(req);
+  if (typeof password !== "string" || !verifyAdminPassword(password)) {
+    return NextResponse.json({ ok: false, error: "Mot de passe incorrect" }, { status: 401 });
+  }
+
+  const res = NextResponse.json({ ok: true, authorized: true });
+  res.cookies.set(ADMIN_COOKIE, createSessionToken(), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: SESSION_TTL_S,
+  });
+  return res;
+}
+
+// logout
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true, authorized: false });
+  res.cookies.delete(ADMIN_COOKIE);
+  return res;
+}
@@ -0,0 +1,8 @@
+import { check, withAdmin } from "../../../../../lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  return withAdmin(async (supabase) => check(await supabase.from("shops").delete().eq("id", id)));
+}
@@ -0,0 +1,14 @@
+import { check, pick, readJson, withAdmin } from "../../../../lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+const SHOP_FIELDS = ["name", "website_url"] as const;
+
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) => {
+    const row = pick(body, SHOP_FIELDS);
+    if (typeof row.name !== "string" || !row.name.trim()) throw new Error("Missing shop name");
+    return check(await supabase.from("shops").insert(row).select("id").single());
+  });
+}
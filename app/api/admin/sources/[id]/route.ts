@@ -0,0 +1,13 @@
+import { check, pick, readJson, withAdmin } from "../../../../../lib/adminAuth";
+import { SOURCE_FIELDS } from "../../../../../lib/scraper/types";
+
+export const dynamic = "force-dynamic";
+
+// édition + désactivation (is_active: false) ; pas de suppression : le journal garde l'historique
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const body = await readJson(req);
+  return withAdmin(async (supabase) =>
+    check(await supabase.from("scrape_sources").update(pick(body, SOURCE_FIELDS)).eq("id", id))
+  );
+}
@@ -0,0 +1,17 @@
+import { check, withAdmin } from "../../../../../../lib/adminAuth";
+import { previewSource } from "../../../../../../lib/scraper/preview";
+import type { SourceRow } from "../../../../../../lib/scraper/types";
+
+export const dynamic = "force-dynamic";
+// ✅ previewSource s'arrête à 45s (withDeadline) : réponse avant la coupure de la plateforme
+export const maxDuration = 60;
+
+// ✅ dry-run : adapter + parse des premiers produits, rien n'est écrit
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  return withAdmin(async (supabase) => {
+    const src = check(await supabase.from("scrape_sources").select("*").eq("id", id).maybeSingle()) as SourceRow | null;
+    if (!src) throw new Error("Source not found");
+    return previewSource(supabase, src);
+  });
+}
@@ -0,0 +1,49 @@
+import { check, pick, readJson, withAdmin } from "../../../../lib/adminAuth";
+import { ADAPTERS } from "../../../../lib/scraper/registry";
+import { SOURCE_FIELDS } from "../../../../lib/scraper/types";
+
+export const dynamic = "force-dynamic";
+
+const LAST_RUN_FIELDS =
+  "started_at, finished_at, strategy, products_seen, upserted, rejected, errors, retired, complete, error_message";
+
+/**
+ * ✅ sources + dernier passage de chacune (scrape_run_sources)
+ * + liste des adapters pour l'épinglage
+ */
+export async function GET() {
+  return withAdmin(async (supabase) => {
+    const sources = check(
+      await supabase.from("scrape_sources").select("*").order("url", { ascending: true })
+    ) as Array<{ id: string }>;
+
+    const lastRuns = await Promise.all(
+      sources.map(async (s) =>
+        check(
+          await supabase
+            .from("scrape_run_sources")
+            .select(LAST_RUN_FIELDS)
+            .eq("source_id", s.id)
+            .order("started_at", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        )
+      )
+    );
+
+    return {
+      sources: sources.map((s, i) => ({ ...s, last_run: lastRuns[i] ?? null })),
+      adapters: ADAPTERS.map((a) => ({ id: a.id, label: a.label })),
+    };
+  });
+}
+
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  return withAdmin(async (supabase) => {
+    const row = pick(body, SOURCE_FIELDS);
+    if (typeof row.url !== "string" || !row.url.trim()) throw new Error("Missing source url");
+    if (!row.shop_id) throw new Error("Missing shop_id");
+    return check(await supabase.from("scrape_sources").insert(row).select("id").single());
+  });
+}
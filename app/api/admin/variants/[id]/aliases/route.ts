@@ -0,0 +1,27 @@
+import { check, readJson, withAdmin } from "../../../../../../lib/adminAuth";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function aliasOf(body: Record<string, unknown>) {
+  const alias = typeof body.alias === "string" ? body.alias.trim().toLowerCase() : "";
+  if (!alias) throw new Error("Missing alias");
+  return alias;
+}
+
+export async function POST(req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const body = await readJson(req);
+  return withAdmin(async (supabase) =>
+    check(await supabase.from("variant_aliases").insert({ variant_id: id, alias: aliasOf(body) }))
+  );
+}
+
+export async function DELETE(req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const body = await readJson(req);
+  return withAdmin(async (supabase) =>
+    check(await supabase.from("variant_aliases").delete().eq("variant_id", id).eq("alias", aliasOf(body)))
+  );
+}
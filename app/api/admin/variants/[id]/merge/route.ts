@@ -0,0 +1,53 @@
+import { check, readJson, withAdmin } from "../../../../../../lib/adminAuth";
+import type { SB } from "../../../../../../lib/supabaseServer";
+import type { VariantRow } from "../../../../../../lib/variants";
+import { VARIANT_FIELDS, variantFromRow } from "../../../../../../lib/variants";
+
+export const dynamic = "force-dynamic";
+
+async function loadVariant(supabase: SB, id: string) {
+  const row = check(await supabase.from("coral_variants").select(VARIANT_FIELDS).eq("id", id).maybeSingle());
+  if (!row) throw new Error(`Variant not found: ${id}`);
+  return variantFromRow(row as unknown as VariantRow);
+}
+
+/**
+ * ✅ fusion : le nom + les alias + les exclusions de la source passent sur la cible,
+ * puis la source est supprimée
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const { into } = await readJson(req);
+
+  return withAdmin(async (supabase) => {
+    if (typeof into !== "string" || !into || into === id) throw new Error("Invalid merge target");
+
+    const source = await loadVariant(supabase, id);
+    const target = await loadVariant(supabase, into);
+    if (source.type !== target.type) throw new Error("Cannot merge variants of different types");
+
+    const aliases = [source.name, ...source.aliases]
+      .map((a) => a.trim().toLowerCase())
+      .filter((a) => a && a !== target.name.toLowerCase());
+
+    if (aliases.length) {
+      check(
+        await supabase
+          .from("variant_aliases")
+          .upsert(
+            aliases.map((alias) => ({ variant_id: into, alias })),
+            { onConflict: "variant_id,alias", ignoreDuplicates: true }
+          )
+      );
+    }
+    check(
+      await supabase
+        .from("coral_variants")
+        .update({ exclude_words: [...new Set([...target.exclude, ...source.exclude])] })
+        .eq("id", into)
+    );
+    check(await supabase.from("coral_variants").delete().eq("id", id));
+
+    return { id: into };
+  });
+}
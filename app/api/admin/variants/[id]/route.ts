@@ -0,0 +1,28 @@
+import { check, pick, readJson, withAdmin } from "../../../../../lib/adminAuth";
+import { variantToSlug } from "../../../../../lib/variants";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const body = await readJson(req);
+
+  return withAdmin(async (supabase) => {
+    const row = pick(body, ["name", "image_url", "implies_type", "exclude_words"]);
+    // renommer = nouveau slug (url /compare/<type>/<slug>)
+    if (typeof row.name === "string") {
+      const name = row.name.trim();
+      row.name = name;
+      row.slug = variantToSlug(name);
+    }
+    return check(await supabase.from("coral_variants").update(row).eq("id", id));
+  });
+}
+
+// les alias partent avec (on delete cascade)
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { id } = await ctx.params;
+  return withAdmin(async (supabase) => check(await supabase.from("coral_variants").delete().eq("id", id)));
+}
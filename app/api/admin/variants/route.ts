@@ -0,0 +1,25 @@
+import { check, readJson, withAdmin } from "../../../../lib/adminAuth";
+import { compareTypeDef, variantToSlug } from "../../../../lib/variants";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const { coral_type, name, position } = await readJson(req);
+  return withAdmin(async (supabase) => {
+    if (typeof coral_type !== "string" || !compareTypeDef(coral_type)) throw new Error("Unknown coral_type");
+    if (typeof name !== "string" || !name.trim()) throw new Error("Missing variant name");
+
+    return check(
+      await supabase
+        .from("coral_variants")
+        .insert({
+          coral_type,
+          name: name.trim(),
+          slug: variantToSlug(name.trim()),
+          position: typeof position === "number" ? position : 0,
+        })
+        .select("id")
+        .single()
+    );
+  });
+}
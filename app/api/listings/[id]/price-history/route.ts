@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+/* ================= TYPES ================= */
+
+type PriceHistoryRow = {
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  effective_price_cad: number | null;
+  status: string;
+  recorded_at: string;
+};
+
+/* ================= STATS ================= */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ⚠️ PostgREST renvoie 1000 lignes max : on garde les PLUS RÉCENTES (sinon `current` est faux)
+const HISTORY_LIMIT = 1000;
+
+/**
+ * ✅ "est-ce une vraie promo ?"
+ * on compare le prix actuel au plus bas des 30 jours AVANT le dernier changement
+ * (history : 1 ligne par changement, ordre chronologique)
+ */
+function summarize(history: PriceHistoryRow[]) {
+  const prices = history.map((h) => h.effective_price_cad).filter((p): p is number => p != null);
+  const current = history.length ? history[history.length - 1] : null;
+
+  let lowestPrior30d: number | null = null;
+  if (current) {
+    const until = new Date(current.recorded_at).getTime();
+    const windowStart = until - 30 * DAY_MS;
+
+    // ✅ prix en vigueur au début de la fenêtre = dernière ligne enregistrée AVANT
+    // (ex: 100$ depuis 60 jours, 80$ aujourd'hui => 100$, pas null)
+    let inEffectAtStart: PriceHistoryRow | null = null;
+    const inWindow: PriceHistoryRow[] = [];
+    for (const h of history.slice(0, -1)) {
+      if (new Date(h.recorded_at).getTime() < windowStart) inEffectAtStart = h;
+      else inWindow.push(h);
+    }
+
+    for (const h of inEffectAtStart ? [inEffectAtStart, ...inWindow] : inWindow) {
+      if (h.effective_price_cad == null) continue;
+      if (lowestPrior30d == null || h.effective_price_cad < lowestPrior30d) lowestPrior30d = h.effective_price_cad;
+    }
+  }
+
+  return {
+    current_price_cad: current?.effective_price_cad ?? null,
+    min_price_cad: prices.length ? Math.min(...prices) : null,
+    max_price_cad: prices.length ? Math.max(...prices) : null,
+    lowest_prior_30d_cad: lowestPrior30d,
+    changes: history.length,
+  };
+}
+
+/* ================= API ================= */
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  if (!id) return NextResponse.json({ ok: false, error: "Missing listing id" }, { status: 400 });
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const listing = await supabase
+      .from("listings")
+      .select("id, shop_id, title_raw, url, price_cad, sale_price_cad, status")
+      .eq("id", id)
+      .maybeSingle();
+    if (listing.error) throw new Error(listing.error.message);
+    if (!listing.data) return NextResponse.json({ ok: false, error: "Listing not found" }, { status: 404 });
+
+    const { data, error } = await supabase
+      .from("listing_price_history")
+      .select("price_cad, sale_price_cad, effective_price_cad, status, recorded_at")
+      .eq("listing_id", id)
+      .order("recorded_at", { ascending: false })
+      .limit(HISTORY_LIMIT);
+    if (error) throw new Error(error.message);
+
+    // plus récentes d'abord (limit) => remises dans l'ordre chronologique
+    const history = ((data as PriceHistoryRow[]) ?? []).reverse();
+
+    return NextResponse.json({ ok: true, listing: listing.data, summary: summarize(history), history });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
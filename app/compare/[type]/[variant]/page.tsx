@@ -1,73 +1,44 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import type { ReactNode } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { notFound, useParams, useRouter } from "next/navigation";
+import type { Listing } from "../../../../lib/listings";
+import {
+  SELECT_FIELDS,
+  cardImageUrl,
+  comparePricePerUnit,
+  discountPercent,
+  displayPrice,
+  expandOffers,
+  fetchOffers,
+  formatCad,
+  isWysiwygOffer,
+  unitPriceLabel,
+} from "../../../../lib/listings";
 import { supabase } from "../../../../lib/supabaseClient";
-
-type Listing = {
-  id: string;
-  shop_id: string;
-  title_raw: string;
-  url: string | null;
-  image_url: string | null;
-  price_cad: number | null;
-  sale_price_cad: number | null;
-  status: string;
-  category: string;
-  coral_type: string | null;
-  variant: string | null;
-  sale_mode: string | null;
-  unit_type: string | null;
-  unit_count: number | null;
-  created_at: string;
-};
-
-type SortMode = "price_asc" | "price_desc" | "discount_desc";
-
-function slugToVariant(slug: string): string {
-  return (slug || "").toLowerCase().replace(/-/g, " ").trim();
-}
-
-function variantToSlug(v: string): string {
-  return (v || "")
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s-]/g, "")
-    .replace(/\s+/g, "-");
-}
-
-function displayPrice(l: Listing): number | null {
-  if (l.sale_price_cad != null) return l.sale_price_cad;
-  if (l.price_cad != null) return l.price_cad;
-  return null;
-}
-
-function discountPercent(l: Listing): number | null {
-  if (l.price_cad == null || l.sale_price_cad == null) return null;
-  if (l.price_cad <= 0) return null;
-  const pct = (1 - l.sale_price_cad / l.price_cad) * 100;
-  if (!Number.isFinite(pct)) return null;
-  if (pct <= 0) return null;
-  return Math.round(pct);
-}
-
-function formatCad(n: number | null): string {
-  if (n == null) return "—";
-  return `${n.toFixed(2)} CAD`;
-}
-
-function prettyVariantName(v: string): string {
-  const raw = (v || "").trim();
-  if (!raw) return "";
-  const compact = raw.replace(/\s+/g, "");
-  if (compact.length > 0 && compact.length <= 4) return compact.toUpperCase();
-  return raw
-    .toLowerCase()
-    .split(/\s+/g)
-    .filter(Boolean)
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(" ");
+import type { CompareTypeDef, VariantDef } from "../../../../lib/variants";
+import {
+  buildOrForNeedles,
+  compareTypeDef,
+  fetchVariants,
+  listingMatchesVariant,
+  needlesForVariant,
+  prettyVariantName,
+  variantFromSlug,
+  variantToSlug,
+} from "../../../../lib/variants";
+
+type SortMode = "price_asc" | "price_desc" | "discount_desc" | "price_per_unit_asc";
+
+// ✅ listings multi-variants dépliés : chaque variant (1 / 2 / 3 têtes) comparé aux autres shops
+// offres indisponibles => listings repliés (variant la moins chère), la page reste utilisable
+async function withOffers(listings: Listing[]): Promise<Listing[]> {
+  try {
+    return expandOffers(listings, await fetchOffers(supabase, listings));
+  } catch {
+    return listings;
+  }
 }
 
 function shouldShowVariant(v: string | null | undefined): boolean {
@@ -80,152 +51,6 @@ function shouldShowVariant(v: string | null | undefined): boolean {
   return true;
 }
 
-const SELECT_FIELDS =
-  "id, shop_id, title_raw, url, image_url, price_cad, sale_price_cad, status, category, coral_type, variant, sale_mode, unit_type, unit_count, created_at";
-
-function norm(s: string): string {
-  return (s || "").toLowerCase().replace(/[^a-z0-9]+/g, "").trim();
-}
-function normSpace(s: string): string {
-  return (s || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim()
-    .replace(/\s+/g, " ");
-}
-
-function needlesForVariant(name: string): string[] {
-  const n = name.trim().toLowerCase();
-  const out = new Set<string>([n, normSpace(n), norm(n)]);
-
-  if (n === "hellfire") out.add("hell fire");
-  if (n === "holy grail") out.add("holygrail");
-  if (n === "dragon soul") out.add("dragonsoul");
-  if (n === "dragon tamer") out.add("dragontamer");
-  if (n === "indo gold") out.add("indogold");
-  if (n === "ny knicks") {
-    out.add("nyknicks");
-    out.add("knicks");
-  }
-  if (n === "24k gold") {
-    out.add("24k");
-    out.add("24 k");
-    out.add("24kgold");
-  }
-  if (n === "sun god") out.add("sungod");
-  if (n === "cotton candy") out.add("cottoncandy");
-  if (n === "grim reaper") out.add("grimreaper");
-
-  return [...out].filter(Boolean);
-}
-
-function buildOrForNeedles(needles: string[]): string {
-  const parts: string[] = [];
-  for (const nd of needles) {
-    const a = normSpace(nd);
-    const b = norm(nd);
-
-    if (a) {
-      const aEsc = a.replace(/%/g, "\\%");
-      parts.push(`title_raw.ilike.%${aEsc}%`);
-      parts.push(`variant.ilike.%${aEsc}%`);
-    }
-    if (b && b !== a) {
-      const bEsc = b.replace(/%/g, "\\%");
-      parts.push(`title_raw.ilike.%${bEsc}%`);
-      parts.push(`variant.ilike.%${bEsc}%`);
-    }
-  }
-  return parts.join(",");
-}
-
-/* ---------------- ✅ LOGIQUE TORCH (inclusion/exclusion) ---------------- */
-
-const TORCH_VARIANTS: string[] = [
-  "Dragon Soul",
-  "Indo Gold",
-  "Jester",
-  "Hellfire",
-  "NY Knicks",
-  "Dragon Tamer",
-  "24K Gold",
-  "Sun God",
-  "Holy Grail",
-  "Master",
-  "Rapunzel",
-  "Banana",
-  "Green",
-  "Black",
-  "Cotton Candy",
-  "Grim Reaper",
-  "Rasta",
-  "Miami",
-  "Joker",
-  "Tiger",
-];
-
-const TORCH_INCLUDE_WORDS_BASE = ["torch", "torche"];
-
-const TORCH_EXCLUDE_WORDS = [
-  "zoa",
-  "zoanthid",
-  "zoanthids",
-  "zoanthus",
-  "acro",
-  "acropora",
-  "hammer",
-  "frogspawn",
-  "octospawn",
-  "snail",
-  "fish",
-  "crab",
-  "urchin",
-];
-
-function textForMatch(l: Listing): string {
-  return `${l.title_raw || ""} ${l.variant || ""}`.toLowerCase();
-}
-
-function includesAny(hay: string, needles: string[]): boolean {
-  for (const n of needles) {
-    const s = (n || "").toLowerCase().trim();
-    if (!s) continue;
-    if (hay.includes(s)) return true;
-  }
-  return false;
-}
-
-function isBlacklistedTorch(hay: string): boolean {
-  return includesAny(hay, TORCH_EXCLUDE_WORDS);
-}
-
-function allTorchNeedlesForAllPage(): string[] {
-  const out = new Set<string>();
-  for (const w of TORCH_INCLUDE_WORDS_BASE) out.add(w);
-  for (const v of TORCH_VARIANTS) for (const n of needlesForVariant(v)) out.add(n);
-  return [...out];
-}
-
-function torchPassesFilter(l: Listing, mode: "all" | "variant", variantName: string): boolean {
-  const hay = textForMatch(l);
-
-  // 1) blacklist prioritaire
-  if (isBlacklistedTorch(hay)) return false;
-
-  // 2) inclusion
-  if (mode === "all") {
-    // All = torch/torche OU variantes
-    return includesAny(hay, allTorchNeedlesForAllPage());
-  }
-
-  // ✅ VARIANT = UNIQUEMENT mots-clés de cette variante (PAS "torch/torche")
-  const v = (variantName || "").trim();
-  if (!v) return false;
-
-  const needles = needlesForVariant(v);
-  return includesAny(hay, needles);
-}
-
 /* ---------------- shop name via domain ---------------- */
 
 const SHOP_LABEL_BY_DOMAIN: Record<string, string> = {
@@ -257,12 +82,18 @@ function shopNameFromListing(l: Listing): string {
   return "Shop";
 }
 
-export default function CompareTorchVariantPage() {
-  const router = useRouter();
-  const params = useParams<{ variant: string }>();
+export default function CompareVariantPage() {
+  const params = useParams<{ type: string; variant: string }>();
 
-  const variantSlug = params?.variant || "";
-  const variant = useMemo(() => slugToVariant(variantSlug), [variantSlug]);
+  // ✅ /compare/torch, /compare/zoa, /compare/acro (voir lib/variants.ts)
+  const def = compareTypeDef(params?.type || "");
+  if (!def) notFound();
+
+  return <VariantOffers key={`${def.type}/${params?.variant}`} def={def} variantSlug={params?.variant || ""} />;
+}
+
+function VariantOffers({ def, variantSlug }: { def: CompareTypeDef; variantSlug: string }) {
+  const router = useRouter();
 
   const isAll = useMemo(() => (variantSlug || "").trim().toLowerCase() === "all", [variantSlug]);
 
@@ -289,20 +120,30 @@ export default function CompareTorchVariantPage() {
       setVariantLoading(true);
       setMsg(null);
 
-      let q = supabase.from("listings").select(SELECT_FIELDS);
+      // ✅ variante depuis coral_variants (+ alias / exclusions) ; slug inconnu => nom libre
+      let variant: VariantDef | null = null;
+      if (!isAll) {
+        let known: VariantDef[] = [];
+        try {
+          known = await fetchVariants(supabase, def.type);
+        } catch {}
+        if (cancelled) return;
+        variant = variantFromSlug(def.type, known, variantSlug);
+      }
+
+      let q = supabase.from("listings").select(SELECT_FIELDS).is("retired_at", null).eq("coral_type", def.type);
 
-      if (isAll) {
+      if (!variant) {
         q = q.order("created_at", { ascending: false }).limit(3000);
       } else {
-        const v = variant.trim();
-        if (!v) {
+        if (!variant.name.trim()) {
           setVariantListings([]);
           setVariantLoading(false);
           return;
         }
 
         // ✅ préfiltre SQL UNIQUEMENT sur la variante (sinon "torch" pollue toutes les pages)
-        const needles = needlesForVariant(v);
+        const needles = needlesForVariant(variant);
         q = q.or(buildOrForNeedles(needles))
           .order("created_at", { ascending: false })
           .limit(2000);
@@ -318,11 +159,11 @@ export default function CompareTorchVariantPage() {
       } else {
         const raw = (data as Listing[]) ?? [];
 
-        const filtered = isAll
-          ? raw.filter((l) => torchPassesFilter(l, "all", ""))
-          : raw.filter((l) => torchPassesFilter(l, "variant", variant));
+        const filtered = raw.filter((l) => listingMatchesVariant(l, def.type, variant));
+        const expanded = await withOffers(filtered);
+        if (cancelled) return;
 
-        setVariantListings(filtered);
+        setVariantListings(expanded);
       }
 
       setVariantLoading(false);
@@ -332,7 +173,7 @@ export default function CompareTorchVariantPage() {
     return () => {
       cancelled = true;
     };
-  }, [variant, isAll]);
+  }, [def, variantSlug, isAll]);
 
   useEffect(() => {
     let cancelled = false;
@@ -350,6 +191,8 @@ export default function CompareTorchVariantPage() {
         supabase
           .from("listings")
           .select(SELECT_FIELDS)
+          .is("retired_at", null)
+          .eq("coral_type", def.type)
           .ilike("title_raw", `%${q}%`)
           .order("created_at", { ascending: false })
           .limit(40),
@@ -357,6 +200,8 @@ export default function CompareTorchVariantPage() {
         supabase
           .from("listings")
           .select(SELECT_FIELDS)
+          .is("retired_at", null)
+          .eq("coral_type", def.type)
           .not("variant", "is", null)
           .ilike("variant", `%${q}%`)
           .order("created_at", { ascending: false })
@@ -380,7 +225,7 @@ export default function CompareTorchVariantPage() {
       if (!byTitle.error) pushUniq(byTitle.data as any[]);
       if (!byVariant.error) pushUniq(byVariant.data as any[]);
 
-      const filtered = merged.filter((l) => torchPassesFilter(l, "all", ""));
+      const filtered = merged.filter((l) => listingMatchesVariant(l, def.type, null));
       setSuggestions(filtered.slice(0, 12));
       setSuggestLoading(false);
     }, 250);
@@ -389,7 +234,7 @@ export default function CompareTorchVariantPage() {
       cancelled = true;
       clearTimeout(t);
     };
-  }, [search]);
+  }, [def, search]);
 
   useEffect(() => {
     let cancelled = false;
@@ -408,6 +253,8 @@ export default function CompareTorchVariantPage() {
         supabase
           .from("listings")
           .select(SELECT_FIELDS)
+          .is("retired_at", null)
+          .eq("coral_type", def.type)
           .ilike("title_raw", `%${q}%`)
           .order("created_at", { ascending: false })
           .limit(800),
@@ -415,6 +262,8 @@ export default function CompareTorchVariantPage() {
         supabase
           .from("listings")
           .select(SELECT_FIELDS)
+          .is("retired_at", null)
+          .eq("coral_type", def.type)
           .not("variant", "is", null)
           .ilike("variant", `%${q}%`)
           .order("created_at", { ascending: false })
@@ -437,8 +286,11 @@ export default function CompareTorchVariantPage() {
       if (!byTitle.error) pushUniq(byTitle.data as any[]);
       if (!byVariant.error) pushUniq(byVariant.data as any[]);
 
-      const filtered = merged.filter((l) => torchPassesFilter(l, "all", ""));
-      setSearchResults(filtered);
+      const filtered = merged.filter((l) => listingMatchesVariant(l, def.type, null));
+      const expanded = await withOffers(filtered);
+      if (cancelled) return;
+
+      setSearchResults(expanded);
       setSearchLoading(false);
     }
 
@@ -446,7 +298,7 @@ export default function CompareTorchVariantPage() {
     return () => {
       cancelled = true;
     };
-  }, [filterTerm]);
+  }, [def, filterTerm]);
 
   const showingGlobalSearch = filterTerm.trim().length > 0;
   const baseList = showingGlobalSearch ? searchResults : variantListings;
@@ -473,6 +325,9 @@ export default function CompareTorchVariantPage() {
   const sorted = useMemo(() => {
     const arr = [...baseList];
 
+    // ✅ prix par tête ; WYSIWYG et colonies à part, après
+    if (sortMode === "price_per_unit_asc") return arr.sort(comparePricePerUnit);
+
     arr.sort((a, b) => {
       const aSO = a.status === "sold_out" ? 1 : 0;
       const bSO = b.status === "sold_out" ? 1 : 0;
@@ -602,8 +457,8 @@ export default function CompareTorchVariantPage() {
     <main style={{ minHeight: "100vh", background: "#0b0b0f", color: "#f5f5f7", padding: 20 }}>
       {/* ✅ Barre top : bouton retour (et on a supprimé le titre "Comparaison — Torch — ...") */}
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 12 }}>
-        <button type="button" onClick={() => router.push("/compare/torch")} style={backBtnStyle}>
-          ← Retour Torch
+        <button type="button" onClick={() => router.push(`/compare/${def.type}`)} style={backBtnStyle}>
+          ← Retour {def.label}
         </button>
 
         {/* Optionnel: petit rappel discret de la variante (tu peux l’enlever si tu veux 0 texte) */}
@@ -755,6 +610,7 @@ export default function CompareTorchVariantPage() {
           <option value="price_asc">Prix (croissant)</option>
           <option value="price_desc">Prix (décroissant)</option>
           <option value="discount_desc">Meilleure promo (%)</option>
+          <option value="price_per_unit_asc">Prix par tête / polype</option>
         </select>
       </div>
 
@@ -771,7 +627,7 @@ export default function CompareTorchVariantPage() {
             justifyContent: "center",
           }}
         >
-          {sorted.map((l) => {
+          {sorted.map((l, i) => {
             const base = l.price_cad;
             const sale = l.sale_price_cad;
             const shown = displayPrice(l);
@@ -782,84 +638,97 @@ export default function CompareTorchVariantPage() {
 
             const isSoldOut = l.status === "sold_out";
             const shopName = shopNameFromListing(l);
+            const perUnit = unitPriceLabel(l);
+
+            // ✅ tri par unité : WYSIWYG / colonies dans un bloc à part
+            const startsWysiwyg =
+              sortMode === "price_per_unit_asc" && isWysiwygOffer(l) && (i === 0 || !isWysiwygOffer(sorted[i - 1]));
+            const image = cardImageUrl(l);
 
             return (
-              <div
-                key={l.id}
-                style={{
-                  background: "#101018",
-                  border: "1px solid #242432",
-                  borderRadius: 16,
-                  overflow: "hidden",
-                }}
-              >
-                <div style={{ position: "relative" }}>
-                  {l.image_url ? (
-                    // eslint-disable-next-line @next/next/no-img-element
-                    <img src={l.image_url} alt={l.title_raw} style={{ width: "100%", height: 180, objectFit: "cover" }} />
-                  ) : (
-                    <div
-                      style={{
-                        width: "100%",
-                        height: 180,
-                        background: "#151523",
-                        display: "flex",
-                        alignItems: "center",
-                        justifyContent: "center",
-                        opacity: 0.7,
-                      }}
-                    >
-                      Pas d’image
-                    </div>
-                  )}
+              <Fragment key={l.id}>
+                {startsWysiwyg ? (
+                  <div style={{ gridColumn: "1 / -1", fontWeight: 900, marginTop: 8, opacity: 0.9 }}>
+                    WYSIWYG / colonies (pas de prix par unité)
+                  </div>
+                ) : null}
+                <div
+                  style={{
+                    background: "#101018",
+                    border: "1px solid #242432",
+                    borderRadius: 16,
+                    overflow: "hidden",
+                  }}
+                >
+                  <div style={{ position: "relative" }}>
+                    {image ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={image} alt={l.title_raw} style={{ width: "100%", height: 180, objectFit: "cover" }} />
+                    ) : (
+                      <div
+                        style={{
+                          width: "100%",
+                          height: 180,
+                          background: "#151523",
+                          display: "flex",
+                          alignItems: "center",
+                          justifyContent: "center",
+                          opacity: 0.7,
+                        }}
+                      >
+                        Pas d’image
+                      </div>
+                    )}
 
-                  <div style={{ position: "absolute", top: 10, left: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
-                    {pct != null ? <Badge tone="green">-{pct}%</Badge> : null}
+                    <div style={{ position: "absolute", top: 10, left: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      {pct != null ? <Badge tone="green">-{pct}%</Badge> : null}
+                    </div>
                   </div>
-                </div>
 
-                <div style={{ padding: 12 }}>
-                  <div style={{ fontWeight: 700, marginBottom: 6 }}>{l.title_raw}</div>
+                  <div style={{ padding: 12 }}>
+                    <div style={{ fontWeight: 700, marginBottom: 6 }}>{l.title_raw}</div>
 
-                  <div style={{ marginBottom: 8, opacity: 0.9 }}>
-                    <span style={{ fontWeight: 800 }}>{formatCad(shown)}</span>
-                    {sale != null && base != null ? (
-                      <span style={{ marginLeft: 10, opacity: 0.75 }}>
-                        <s>{formatCad(base)}</s>
-                      </span>
-                    ) : null}
-                  </div>
+                    <div style={{ marginBottom: 8, opacity: 0.9 }}>
+                      <span style={{ fontWeight: 800 }}>{formatCad(shown)}</span>
+                      {sale != null && base != null ? (
+                        <span style={{ marginLeft: 10, opacity: 0.75 }}>
+                          <s>{formatCad(base)}</s>
+                        </span>
+                      ) : null}
+                    </div>
 
-                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", opacity: 0.8 }}>
-                    {showV ? <span>variant: {l.variant}</span> : null}
-                    <span>{unitLabel(l)}</span>
-                  </div>
+                    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", opacity: 0.8 }}>
+                      {showV ? <span>variant: {l.variant}</span> : null}
+                      <span>{unitLabel(l)}</span>
+                      {perUnit ? <span>{perUnit}</span> : null}
+                    </div>
 
-                  <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}>
-                    {l.url ? (
-                      <a href={l.url} target="_blank" rel="noreferrer" style={actionBtnStyle}>
-                        Voir sur le shop
-                      </a>
-                    ) : null}
-
-                    {showV && l.variant ? (
-                      <button
-                        type="button"
-                        onClick={() => router.push(`/compare/torch/${variantToSlug(l.variant!)}`)}
-                        style={actionBtnStyle}
-                        title="Ouvrir la page de comparaison de ce variant"
-                      >
-                        {vName || "Variant"}
-                      </button>
-                    ) : null}
-                  </div>
+                    <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}>
+                      {l.url ? (
+                        <a href={l.url} target="_blank" rel="noreferrer" style={actionBtnStyle}>
+                          Voir sur le shop
+                        </a>
+                      ) : null}
+
+                      {showV && l.variant ? (
+                        <button
+                          type="button"
+                          onClick={() => router.push(`/compare/${def.type}/${variantToSlug(l.variant!)}`)}
+                          style={actionBtnStyle}
+                          title="Ouvrir la page de comparaison de ce variant"
+                        >
+                          {vName || "Variant"}
+                        </button>
+                      ) : null}
+                    </div>
 
-                  <div style={{ marginTop: 12, display: "flex", justifyContent: "space-between", gap: 10 }}>
-                    <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.9 }}>{shopName}</div>
-                    {isSoldOut ? <div style={{ fontSize: 12, fontWeight: 900, color: "#ff4d4d" }}>SOLD OUT</div> : null}
+                    <div style={{ marginTop: 12, display: "flex", justifyContent: "space-between", gap: 10 }}>
+                      <div style={{ fontSize: 12, fontWeight: 900, opacity: 0.9 }}>{shopName}</div>
+                      {isSoldOut ? <div style={{ fontSize: 12, fontWeight: 900, color: "#ff4d4d" }}>SOLD OUT</div> : null}
+                    </div>
                   </div>
                 </div>
-              </div>
+              </Fragment>
             );
           })}
         </div>
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { notFound, useParams, useRouter } from "next/navigation";
+import Image from "next/image";
+import type { Listing } from "../../../lib/listings";
+import { SELECT_FIELDS } from "../../../lib/listings";
+import { supabase } from "../../../lib/supabaseClient";
+import type { CompareTypeDef, VariantDef } from "../../../lib/variants";
+import { compareTypeDef, fetchVariants, listingMatchesVariant, prettyVariantName } from "../../../lib/variants";
+
+/* ---------------- UI (mock-like) ---------------- */
+
+const headerBtnStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 12,
+  border: "1px solid rgba(255,255,255,0.10)",
+  background: "rgba(16,16,24,0.65)",
+  color: "#f5f5f7",
+  cursor: "pointer",
+  fontWeight: 900,
+};
+
+const pageBg: React.CSSProperties = {
+  minHeight: "100vh",
+  background: "radial-gradient(1200px 700px at 25% 10%, #141421 0%, #0b0b0f 55%, #07070a 100%)",
+  color: "#f5f5f7",
+  padding: 20,
+};
+
+const gridStyle: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(auto-fit, minmax(190px, 1fr))",
+  gap: 18,
+  maxWidth: 980,
+  marginTop: 22,
+};
+
+const cardStyle: React.CSSProperties = {
+  background: "rgba(16,16,24,0.70)",
+  border: "1px solid rgba(255,255,255,0.10)",
+  borderRadius: 18,
+  padding: 14,
+  cursor: "pointer",
+  color: "#f5f5f7",
+  textAlign: "center",
+  boxShadow: "0 10px 30px rgba(0,0,0,0.35)",
+  backdropFilter: "blur(10px)",
+  transition: "transform 160ms ease, box-shadow 160ms ease, border-color 160ms ease",
+};
+
+const iconWrap: React.CSSProperties = {
+  width: 118,
+  height: 118,
+  borderRadius: 18,
+  border: "1px solid rgba(255,255,255,0.10)",
+  background: "rgba(10,10,16,0.35)",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  margin: "10px auto 12px",
+  overflow: "hidden",
+};
+
+// carte "All" en dernier (toutes les offres du type)
+const ALL_SLUG = "all";
+
+export default function CompareTypePage() {
+  const params = useParams<{ type: string }>();
+
+  // ✅ /compare/torch, /compare/zoa, /compare/acro (voir lib/variants.ts)
+  const def = compareTypeDef(params?.type || "");
+  if (!def) notFound();
+
+  return <VariantIndex key={def.type} def={def} />;
+}
+
+function VariantIndex({ def }: { def: CompareTypeDef }) {
+  const router = useRouter();
+
+  const [variants, setVariants] = useState<VariantDef[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loadingCounts, setLoadingCounts] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const cards = [
+    ...variants.map((v) => ({ slug: v.slug, name: v.name, image: v.image })),
+    { slug: ALL_SLUG, name: "All", image: null },
+  ];
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      setLoadingCounts(true);
+      setMsg(null);
+
+      // ✅ variantes depuis coral_variants (éditables sans deploy)
+      let known: VariantDef[] = [];
+      try {
+        known = await fetchVariants(supabase, def.type);
+      } catch (e) {
+        if (!cancelled) setMsg(e instanceof Error ? e.message : "Erreur chargement variantes");
+      }
+
+      // ✅ coral_type assigné au scrape (lib/scraper/coralType.ts)
+      const { data } = await supabase
+        .from("listings")
+        .select(SELECT_FIELDS)
+        .is("retired_at", null)
+        .eq("coral_type", def.type)
+        .order("created_at", { ascending: false })
+        .limit(4000);
+
+      if (cancelled) return;
+
+      const ofType = (data as Listing[]) ?? [];
+
+      const next: Record<string, number> = { [ALL_SLUG]: ofType.length };
+      for (const v of known) {
+        next[v.slug] = ofType.filter((l) => listingMatchesVariant(l, def.type, v)).length;
+      }
+
+      setVariants(known);
+      setCounts(next);
+      setLoadingCounts(false);
+    }
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [def]);
+
+  const Badge = ({ children }: { children: ReactNode }) => (
+    <span
+      style={{
+        background: "rgba(15,42,24,0.75)",
+        border: "1px solid rgba(31,107,58,0.9)",
+        color: "#c9ffd9",
+        padding: "6px 10px",
+        borderRadius: 999,
+        fontSize: 12,
+        fontWeight: 900,
+        display: "inline-block",
+        marginTop: 10,
+      }}
+    >
+      {children}
+    </span>
+  );
+
+  return (
+    <main style={pageBg}>
+      {/* Header */}
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 10 }}>
+        <button onClick={() => router.push("/compare")} style={headerBtnStyle}>
+          Home
+        </button>
+        <div style={{ fontSize: 18, fontWeight: 900, opacity: 0.95 }}>{def.label}</div>
+      </div>
+
+      {msg ? <div style={{ opacity: 0.8, fontSize: 13 }}>{msg}</div> : null}
+
+      {/* Variants cards */}
+      <div style={gridStyle}>
+        {cards.map((v) => (
+          <button
+            key={v.slug}
+            onClick={() => router.push(`/compare/${def.type}/${v.slug}`)}
+            style={cardStyle}
+            onMouseEnter={(e) => {
+              (e.currentTarget as HTMLButtonElement).style.transform = "translateY(-2px)";
+              (e.currentTarget as HTMLButtonElement).style.boxShadow = "0 16px 40px rgba(0,0,0,0.45)";
+              (e.currentTarget as HTMLButtonElement).style.borderColor = "rgba(255,255,255,0.16)";
+            }}
+            onMouseLeave={(e) => {
+              (e.currentTarget as HTMLButtonElement).style.transform = "translateY(0px)";
+              (e.currentTarget as HTMLButtonElement).style.boxShadow = "0 10px 30px rgba(0,0,0,0.35)";
+              (e.currentTarget as HTMLButtonElement).style.borderColor = "rgba(255,255,255,0.10)";
+            }}
+          >
+            <div style={iconWrap}>
+              <Image
+                src={v.image || def.icon}
+                alt={`${prettyVariantName(v.name)} icon`}
+                width={96}
+                height={96}
+                style={{ width: 96, height: 96, objectFit: "contain" }}
+                // image_url de coral_variants = url externe (pas dans images.remotePatterns)
+                unoptimized={!!v.image}
+                priority
+              />
+            </div>
+
+            <div style={{ fontWeight: 900, fontSize: 14 }}>{prettyVariantName(v.name)}</div>
+
+            <Badge>{loadingCounts ? "…" : `${counts[v.slug] ?? 0} items`}</Badge>
+          </button>
+        ))}
+      </div>
+    </main>
+  );
+}
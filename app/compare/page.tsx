@@ -3,6 +3,7 @@
 import Image from "next/image";
 import Link from "next/link";
 import React from "react";
+import { cardImageUrl, fromPriceLabel } from "../../lib/listings";
 import { supabase } from "../../lib/supabaseClient";
 
 /* ===================== TYPES ===================== */
@@ -13,6 +14,8 @@ type Listing = {
   title_raw: string;
   url: string | null;
   image_url: string | null;
+  image_mirror_url: string | null;
+  image_thumb_url: string | null;
   price_cad: number | null;
   sale_price_cad: number | null;
   status: string;
@@ -22,11 +25,12 @@ type Listing = {
   sale_mode: string | null;
   unit_type: string | null;
   unit_count: number | null;
+  offer_count: number | null; // > 1 => prix "à partir de" (voir listing_offers)
   created_at: string;
 };
 
 const SELECT_FIELDS =
-  "id, shop_id, title_raw, url, image_url, price_cad, sale_price_cad, status, category, coral_type, variant, sale_mode, unit_type, unit_count, created_at";
+  "id, shop_id, title_raw, url, image_url, image_mirror_url, image_thumb_url, price_cad, sale_price_cad, status, category, coral_type, variant, sale_mode, unit_type, unit_count, offer_count, created_at";
 
 /* ===================== UTILS PRIX ===================== */
 
@@ -426,6 +430,7 @@ export default function HomePage() {
       const { data, error } = await supabase
         .from("listings")
         .select(SELECT_FIELDS)
+        .is("retired_at", null)
         .order("created_at", { ascending: false })
         .limit(4000);
 
@@ -533,6 +538,7 @@ export default function HomePage() {
       const { data, error } = await supabase
         .from("listings")
         .select(SELECT_FIELDS)
+        .is("retired_at", null)
         .or(`title_raw.ilike.${pat},variant.ilike.${pat}`)
         .order("created_at", { ascending: false })
         .limit(3000);
@@ -676,6 +682,7 @@ export default function HomePage() {
                   const pct = discountPercent(l);
                   const shopName = shopNameFromListing(l);
                   const availability = l.status === "sold_out" ? "SOLD OUT" : "DISPONIBLE";
+                  const image = cardImageUrl(l);
 
                   const cardNode = (
                     <div
@@ -688,10 +695,10 @@ export default function HomePage() {
                       <div style={resultTitle}>{l.title_raw || "Sans titre"}</div>
 
                       <div style={imgArea}>
-                        {l.image_url ? (
+                        {image ? (
                           // eslint-disable-next-line @next/next/no-img-element
                           <img
-                            src={l.image_url}
+                            src={image}
                             alt={l.title_raw}
                             style={{ width: "100%", height: "100%", objectFit: "cover" }}
                           />
@@ -716,6 +723,13 @@ export default function HomePage() {
                           <span style={{ fontWeight: 900 }}>{unitLabel(l)}</span>
                         </div>
 
+                        {fromPriceLabel(l) ? (
+                          <div style={lineSmall}>
+                            <span style={{ opacity: 0.85 }}>Variantes</span>
+                            <span style={{ fontWeight: 900, textAlign: "right" }}>{fromPriceLabel(l)}</span>
+                          </div>
+                        ) : null}
+
                         <div style={lineSmall}>
                           <span style={{ opacity: 0.85 }}>Magasin</span>
                           <span style={{ fontWeight: 900, textAlign: "right" }}>{shopName}</span>
@@ -3,52 +3,20 @@
 import Image from "next/image";
 import Link from "next/link";
 import React from "react";
+import type { Listing } from "../lib/listings";
+import {
+  SELECT_FIELDS,
+  cardImageUrl,
+  comparePricePerUnit,
+  discountPercent,
+  displayPrice,
+  formatCad,
+  fromPriceLabel,
+  isWysiwygOffer,
+  unitPriceLabel,
+} from "../lib/listings";
 import { supabase } from "../lib/supabaseClient";
 
-/* ===================== TYPES ===================== */
-
-type Listing = {
-  id: string;
-  shop_id: string;
-  title_raw: string;
-  url: string | null;
-  image_url: string | null;
-  price_cad: number | null;
-  sale_price_cad: number | null;
-  status: string;
-  category: string;
-  coral_type: string | null;
-  variant: string | null;
-  sale_mode: string | null;
-  unit_type: string | null;
-  unit_count: number | null;
-  created_at: string;
-};
-
-const SELECT_FIELDS =
-  "id, shop_id, title_raw, url, image_url, price_cad, sale_price_cad, status, category, coral_type, variant, sale_mode, unit_type, unit_count, created_at";
-
-/* ===================== UTILS PRIX ===================== */
-
-function formatCad(n: number | null): string {
-  if (n == null) return "—";
-  return `${n.toFixed(2)} CAD`;
-}
-
-function displayPrice(l: Listing): number | null {
-  if (l.sale_price_cad != null) return l.sale_price_cad;
-  if (l.price_cad != null) return l.price_cad;
-  return null;
-}
-
-function discountPercent(l: Listing): number | null {
-  if (l.price_cad == null || l.sale_price_cad == null) return null;
-  if (l.price_cad <= 0) return null;
-  const pct = (1 - l.sale_price_cad / l.price_cad) * 100;
-  if (!Number.isFinite(pct) || pct <= 0) return null;
-  return Math.round(pct);
-}
-
 /* ===================== MATCHING MOT-CLÉ ===================== */
 
 function normSpace(s: string): string {
@@ -451,7 +419,9 @@ export default function HomePage() {
   const [loading, setLoading] = React.useState(false);
   const [err, setErr] = React.useState<string | null>(null);
 
-  const [sortMode, setSortMode] = React.useState<"price_asc" | "price_desc" | "sale_first" | "new_first">("price_asc");
+  const [sortMode, setSortMode] = React.useState<
+    "price_asc" | "price_desc" | "sale_first" | "new_first" | "price_per_unit_asc"
+  >("price_asc");
 
   const [allListings, setAllListings] = React.useState<Listing[]>([]);
   const [results, setResults] = React.useState<Listing[]>([]);
@@ -493,34 +463,12 @@ export default function HomePage() {
     return shopFilter[d] === true;
   }
 
+  // ✅ coral_type est assigné au scrape (lib/scraper/coralType.ts)
   function listingMatchesType(l: Listing): boolean {
     if (!anyTypeChecked()) return true;
 
-    const title = normSpace(l.title_raw || "");
-
-    const zoaOK = title.includes("zoa");
-    const acroOK = title.includes("acro");
-
-    const torchKeywords = [
-      "torch",
-      "rapunzel",
-      "holy grail",
-      "indo",
-      "gold",
-      "austie",
-      "dragon soul",
-      "tips",
-      "joker",
-      "banana",
-    ].map((x) => normSpace(x));
-
-    const torchOK = torchKeywords.some((k) => title.includes(k));
-
-    const okZ = typeFilter.zoa ? zoaOK : false;
-    const okA = typeFilter.acro ? acroOK : false;
-    const okT = typeFilter.torch ? torchOK : false;
-
-    return okZ || okA || okT;
+    const t = l.coral_type;
+    return (typeFilter.zoa && t === "zoa") || (typeFilter.acro && t === "acro") || (typeFilter.torch && t === "torch");
   }
 
   function filterWithShopAndType(list: Listing[]): Listing[] {
@@ -538,6 +486,7 @@ export default function HomePage() {
       const { data, error } = await supabase
         .from("listings")
         .select(SELECT_FIELDS)
+        .is("retired_at", null)
         .order("created_at", { ascending: false })
         .limit(6000); // ✅ on monte pour éviter d’en perdre
 
@@ -608,6 +557,9 @@ export default function HomePage() {
         if (aSO !== bSO) return aSO - bSO;
         return (displayPrice(b) ?? -1) - (displayPrice(a) ?? -1);
       });
+    } else if (sortMode === "price_per_unit_asc") {
+      // ✅ prix par tête / polype ; WYSIWYG et colonies à part, après
+      copy.sort(comparePricePerUnit);
     } else if (sortMode === "sale_first") {
       copy.sort((a, b) => {
         const aSO = a.status === "sold_out" ? 1 : 0;
@@ -666,6 +618,7 @@ export default function HomePage() {
       const { data, error } = await supabase
         .from("listings")
         .select(SELECT_FIELDS)
+        .is("retired_at", null)
         .ilike("title_raw", pat) // ✅ TITRE SEULEMENT
         .order("created_at", { ascending: false })
         .limit(6000);
@@ -838,6 +791,7 @@ export default function HomePage() {
           <select style={select} value={sortMode} onChange={(e) => setSortMode(e.target.value as any)}>
             <option value="price_asc">Prix (croissant)</option>
             <option value="price_desc">Prix (décroissant)</option>
+            <option value="price_per_unit_asc">Prix par tête / polype</option>
             <option value="sale_first">Soldes d’abord</option>
             <option value="new_first">Nouveautés</option>
           </select>
@@ -984,6 +938,7 @@ export default function HomePage() {
                   const pct = discountPercent(l);
                   const shopName = shopNameFromListing(l);
                   const availability = l.status === "sold_out" ? "SOLD OUT" : "DISPONIBLE";
+                  const image = cardImageUrl(l);
 
                   const cardNode = (
                     <div style={resultCardWrap} onMouseEnter={onHoverResultCard} onMouseLeave={onLeaveResultCard}>
@@ -992,10 +947,10 @@ export default function HomePage() {
                       <div style={resultTitle}>{l.title_raw || "Sans titre"}</div>
 
                       <div style={imgArea}>
-                        {l.image_url ? (
+                        {image ? (
                           // eslint-disable-next-line @next/next/no-img-element
                           <img
-                            src={l.image_url}
+                            src={image}
                             alt={l.title_raw}
                             style={{ width: "100%", height: "100%", objectFit: "cover" }}
                           />
@@ -1020,6 +975,20 @@ export default function HomePage() {
                           <span style={{ fontWeight: 900 }}>{unitLabel(l)}</span>
                         </div>
 
+                        {fromPriceLabel(l) ? (
+                          <div style={lineSmall}>
+                            <span style={{ opacity: 0.85 }}>Variantes</span>
+                            <span style={{ fontWeight: 900, textAlign: "right" }}>{fromPriceLabel(l)}</span>
+                          </div>
+                        ) : null}
+
+                        {unitPriceLabel(l) ? (
+                          <div style={lineSmall}>
+                            <span style={{ opacity: 0.85 }}>Prix / unité</span>
+                            <span style={{ fontWeight: 900 }}>{unitPriceLabel(l)}</span>
+                          </div>
+                        ) : null}
+
                         <div style={lineSmall}>
                           <span style={{ opacity: 0.85 }}>Magasin</span>
                           <span style={{ fontWeight: 900, textAlign: "right" }}>{shopName}</span>
@@ -1065,6 +1034,8 @@ export default function HomePage() {
                     ? "Prix (croissant)"
                     : sortMode === "price_desc"
                     ? "Prix (décroissant)"
+                    : sortMode === "price_per_unit_asc"
+                    ? "Prix par tête / polype"
                     : sortMode === "sale_first"
                     ? "Soldes d’abord"
                     : "Nouveautés"}
@@ -1080,11 +1051,12 @@ export default function HomePage() {
               </div>
             ) : (
               <div style={grid}>
-                {results.map((l) => {
+                {results.map((l, i) => {
                   const onSale = isOnSale(l);
                   const pct = discountPercent(l);
                   const shopName = shopNameFromListing(l);
                   const availability = l.status === "sold_out" ? "SOLD OUT" : "DISPONIBLE";
+                  const image = cardImageUrl(l);
 
                   const cardNode = (
                     <div style={resultCardWrap} onMouseEnter={onHoverResultCard} onMouseLeave={onLeaveResultCard}>
@@ -1093,10 +1065,10 @@ export default function HomePage() {
                       <div style={resultTitle}>{l.title_raw || "Sans titre"}</div>
 
                       <div style={imgArea}>
-                        {l.image_url ? (
+                        {image ? (
                           // eslint-disable-next-line @next/next/no-img-element
                           <img
-                            src={l.image_url}
+                            src={image}
                             alt={l.title_raw}
                             style={{ width: "100%", height: "100%", objectFit: "cover" }}
                           />
@@ -1121,6 +1093,20 @@ export default function HomePage() {
                           <span style={{ fontWeight: 900 }}>{unitLabel(l)}</span>
                         </div>
 
+                        {fromPriceLabel(l) ? (
+                          <div style={lineSmall}>
+                            <span style={{ opacity: 0.85 }}>Variantes</span>
+                            <span style={{ fontWeight: 900, textAlign: "right" }}>{fromPriceLabel(l)}</span>
+                          </div>
+                        ) : null}
+
+                        {unitPriceLabel(l) ? (
+                          <div style={lineSmall}>
+                            <span style={{ opacity: 0.85 }}>Prix / unité</span>
+                            <span style={{ fontWeight: 900 }}>{unitPriceLabel(l)}</span>
+                          </div>
+                        ) : null}
+
                         <div style={lineSmall}>
                           <span style={{ opacity: 0.85 }}>Magasin</span>
                           <span style={{ fontWeight: 900, textAlign: "right" }}>{shopName}</span>
@@ -1129,18 +1115,27 @@ export default function HomePage() {
                     </div>
                   );
 
-                  return l.url ? (
-                    <a
-                      key={l.id}
-                      href={l.url}
-                      target="_blank"
-                      rel="noreferrer"
-                      style={{ textDecoration: "none" }}
-                    >
+                  const card = l.url ? (
+                    <a href={l.url} target="_blank" rel="noreferrer" style={{ textDecoration: "none" }}>
                       {cardNode}
                     </a>
                   ) : (
-                    <div key={l.id}>{cardNode}</div>
+                    <div>{cardNode}</div>
+                  );
+
+                  // ✅ tri par unité : WYSIWYG / colonies dans un bloc à part
+                  const startsWysiwyg =
+                    sortMode === "price_per_unit_asc" && isWysiwygOffer(l) && (i === 0 || !isWysiwygOffer(results[i - 1]));
+
+                  return (
+                    <React.Fragment key={l.id}>
+                      {startsWysiwyg ? (
+                        <div style={{ ...sectionTitle, gridColumn: "1 / -1", marginTop: 10 }}>
+                          WYSIWYG / colonies (pas de prix par unité)
+                        </div>
+                      ) : null}
+                      {card}
+                    </React.Fragment>
                   );
                 })}
               </div>
@@ -0,0 +1,115 @@
+import { createHmac, scryptSync, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "./supabaseServer";
+import type { SB } from "./supabaseServer";
+
+/* ================= ENV ================= */
+
+// ⚠️ IMPORTANT: NE PAS throw au top-level (sinon Vercel build fail)
+// hash : `npm run admin:hash -- "mot de passe"` => "scrypt:<sel hex>:<hash hex>"
+const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH || "";
+// clé HMAC des cookies de session (la changer = déconnecter tout le monde)
+const ADMIN_SESSION_SECRET = process.env.ADMIN_SESSION_SECRET || "";
+
+export const ADMIN_COOKIE = "admin_session";
+export const SESSION_TTL_S = 12 * 60 * 60;
+
+/* ================= MOT DE PASSE ================= */
+
+export function isAdminConfigured() {
+  return !!ADMIN_PASSWORD_HASH && !!ADMIN_SESSION_SECRET;
+}
+
+// = scripts/hash-admin-password.mjs (sel 16 octets, hash 64 octets)
+const SALT_BYTES = 16;
+const HASH_BYTES = 64;
+
+// hex strict : Buffer.from(…, "hex") tronque au 1er caractère invalide (=> buffer vide)
+const isHex = (s: string, bytes: number) => s.length === bytes * 2 && /^[0-9a-f]+$/i.test(s);
+
+export function verifyAdminPassword(password: string): boolean {
+  const [algo, saltHex, hashHex, ...rest] = ADMIN_PASSWORD_HASH.split(":");
+  // ⚠️ hash mal formé => refus (fail closed) : 2 buffers vides sont "égaux" pour timingSafeEqual
+  if (algo !== "scrypt" || rest.length || !isHex(saltHex ?? "", SALT_BYTES) || !isHex(hashHex ?? "", HASH_BYTES)) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const got = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(got, expected);
+}
+
+/* ================= SESSION (cookie signé) ================= */
+
+function sign(payload: string) {
+  return createHmac("sha256", ADMIN_SESSION_SECRET).update(payload).digest("base64url");
+}
+
+// "<expiration epoch s>.<hmac>" : rien à stocker côté serveur
+export function createSessionToken(now = Date.now()): string {
+  const exp = String(Math.floor(now / 1000) + SESSION_TTL_S);
+  return `${exp}.${sign(exp)}`;
+}
+
+export function isValidSessionToken(token: string | undefined, now = Date.now()): boolean {
+  if (!token || !ADMIN_SESSION_SECRET) return false;
+
+  const [exp, mac] = token.split(".");
+  if (!exp || !mac) return false;
+
+  const a = Buffer.from(mac);
+  const b = Buffer.from(sign(exp));
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return false;
+
+  return Number(exp) * 1000 > now;
+}
+
+export async function isAdminRequest(): Promise<boolean> {
+  const jar = await cookies();
+  return isValidSessionToken(jar.get(ADMIN_COOKIE)?.value);
+}
+
+/* ================= ROUTES ADMIN ================= */
+
+/**
+ * ✅ route admin : session vérifiée, puis écriture en service role
+ * (la clé anon est en lecture seule, voir migration RLS)
+ */
+export async function withAdmin(fn: (supabase: SB) => Promise<unknown>) {
+  if (!(await isAdminRequest())) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const data = await fn(getSupabaseAdmin());
+    return NextResponse.json({ ok: true, data: data ?? null });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function readJson(req: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+// ✅ liste blanche des colonnes écrites depuis l'admin
+export function pick(body: Record<string, unknown>, fields: readonly string[]): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const f of fields) if (f in body) out[f] = body[f];
+  return out;
+}
+
+// erreur supabase => throw (rattrapé par withAdmin)
+export function check<T>(res: { data: T; error: { message: string } | null }): T {
+  if (res.error) throw new Error(res.error.message);
+  return res.data;
+}
@@ -0,0 +1,30 @@
+/* ===================== ÉCRITURES ADMIN (navigateur => /api/admin/*) ===================== */
+
+export type AdminResult<T> = { data: T | null; error: { message: string } | null };
+
+/**
+ * ✅ même forme que les réponses supabase ({ data, error }) :
+ * les écritures passent par les routes admin (session + service role), plus par la clé anon
+ */
+export async function adminFetch<T = unknown>(
+  path: string,
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+  body?: unknown
+): Promise<AdminResult<T>> {
+  try {
+    const res = await fetch(`/api/admin/${path}`, {
+      method,
+      headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      credentials: "same-origin",
+    });
+    const json = (await res.json().catch(() => null)) as { ok?: boolean; data?: T; error?: string } | null;
+
+    if (!res.ok || !json?.ok) {
+      return { data: null, error: { message: json?.error || `HTTP ${res.status}` } };
+    }
+    return { data: json.data ?? null, error: null };
+  } catch (e) {
+    return { data: null, error: { message: e instanceof Error ? e.message : "Network error" } };
+  }
+}
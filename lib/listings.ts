@@ -0,0 +1,220 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/* ===================== LISTING (modèle partagé côté pages) ===================== */
+
+export type Listing = {
+  id: string;
+  shop_id: string;
+  title_raw: string;
+  url: string | null;
+  image_url: string | null; // url d'origine (CDN du shop)
+  image_mirror_url: string | null; // copie dans notre stockage (lib/scraper/images.ts)
+  image_thumb_url: string | null; // vignette des cartes
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  status: string;
+  category: string;
+  coral_type: string | null;
+  variant: string | null;
+  sale_mode: string | null;
+  unit_type: string | null;
+  unit_count: number | null;
+  offer_count: number | null; // > 1 => prix "à partir de" (voir listing_offers)
+  created_at: string;
+};
+
+export const SELECT_FIELDS =
+  "id, shop_id, title_raw, url, image_url, image_mirror_url, image_thumb_url, price_cad, sale_price_cad, status, category, coral_type, variant, sale_mode, unit_type, unit_count, offer_count, created_at";
+
+// colonnes éditables depuis l'admin (ajout manuel / correction, voir /api/admin/listings)
+export const EDITABLE_FIELDS = [
+  "shop_id",
+  "title_raw",
+  "url",
+  "price_cad",
+  "sale_price_cad",
+  "category",
+  "status",
+  "coral_type",
+  "variant",
+  "image_url",
+  "sale_mode",
+  "unit_type",
+  "unit_count",
+] as const;
+
+/* ===================== OFFRES (variants, listing_offers) ===================== */
+
+// 1 variant d'un listing multi-variants (source en variant_mode "all", voir lib/scraper/store.ts syncOffers)
+export type ListingOffer = {
+  listing_id: string;
+  variant_id: string;
+  title: string | null;
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  status: string;
+  unit_type: string | null;
+  unit_count: number | null;
+  position: number;
+};
+
+export const OFFER_FIELDS =
+  "listing_id, variant_id, title, price_cad, sale_price_cad, status, unit_type, unit_count, position";
+
+// ⚠️ les ids partent dans la query string ("in")
+const OFFERS_BATCH = 100;
+
+export function hasOffers(l: Pick<Listing, "offer_count">): boolean {
+  return (l.offer_count ?? 0) > 1;
+}
+
+// ✅ listing replié : "à partir de 80.00 CAD · 3 variantes" (le listing garde la variant la moins chère)
+export function fromPriceLabel(l: Pick<Listing, "offer_count" | "price_cad" | "sale_price_cad">): string | null {
+  if (!hasOffers(l)) return null;
+  return `à partir de ${formatCad(l.sale_price_cad ?? l.price_cad)} · ${l.offer_count} variantes`;
+}
+
+/**
+ * ✅ offres des listings multi-variants (offer_count > 1), par listing, dans l'ordre du shop
+ * client = anon côté pages
+ */
+export async function fetchOffers(client: SupabaseClient, listings: Listing[]): Promise<Map<string, ListingOffer[]>> {
+  const ids = listings.filter(hasOffers).map((l) => l.id);
+  const out = new Map<string, ListingOffer[]>();
+
+  for (let i = 0; i < ids.length; i += OFFERS_BATCH) {
+    const { data, error } = await client
+      .from("listing_offers")
+      .select(OFFER_FIELDS)
+      .in("listing_id", ids.slice(i, i + OFFERS_BATCH))
+      .order("position", { ascending: true });
+    if (error) throw new Error(`Offers load failed: ${error.message}`);
+
+    for (const o of (data ?? []) as ListingOffer[]) {
+      const arr = out.get(o.listing_id);
+      if (arr) arr.push(o);
+      else out.set(o.listing_id, [o]);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * ✅ déplie les listings multi-variants : 1 ligne par variant (son prix, sa dispo, son nb de têtes)
+ * => le 3 têtes d'un shop se compare au 3 têtes des autres (tri prix par tête)
+ * listing sans offres : tel quel
+ */
+export function expandOffers(listings: Listing[], offers: Map<string, ListingOffer[]>): Listing[] {
+  return listings.flatMap((l) => {
+    const list = offers.get(l.id);
+    if (!list?.length) return [l];
+
+    // titre du listing = "Produit — variant la moins chère" => "Produit — variant de l'offre"
+    const suffix = l.variant ? ` — ${l.variant}` : "";
+    const base = suffix && l.title_raw.endsWith(suffix) ? l.title_raw.slice(0, -suffix.length) : l.title_raw;
+
+    return list.map(
+      (o): Listing => ({
+        ...l,
+        id: `${l.id}#${o.variant_id}`,
+        title_raw: o.title ? `${base} — ${o.title}` : base,
+        variant: o.title,
+        price_cad: o.price_cad,
+        sale_price_cad: o.sale_price_cad,
+        status: o.status,
+        sale_mode: o.unit_count != null ? "per_unit" : l.sale_mode,
+        unit_type: o.unit_type ?? l.unit_type,
+        unit_count: o.unit_count,
+        offer_count: null,
+      })
+    );
+  });
+}
+
+/* ===================== IMAGE ===================== */
+
+// ✅ cartes : vignette du miroir, sinon la copie, sinon l'url d'origine (listing pas encore mirroré)
+export function cardImageUrl(l: Pick<Listing, "image_url" | "image_mirror_url" | "image_thumb_url">): string | null {
+  return l.image_thumb_url || l.image_mirror_url || l.image_url || null;
+}
+
+/* ===================== PRIX ===================== */
+
+export function formatCad(n: number | null): string {
+  if (n == null) return "—";
+  return `${n.toFixed(2)} CAD`;
+}
+
+export function displayPrice(l: Listing): number | null {
+  if (l.sale_price_cad != null) return l.sale_price_cad;
+  if (l.price_cad != null) return l.price_cad;
+  return null;
+}
+
+export function discountPercent(l: Listing): number | null {
+  if (l.price_cad == null || l.sale_price_cad == null) return null;
+  if (l.price_cad <= 0) return null;
+  const pct = (1 - l.sale_price_cad / l.price_cad) * 100;
+  if (!Number.isFinite(pct) || pct <= 0) return null;
+  return Math.round(pct);
+}
+
+/* ===================== PRIX PAR UNITÉ ===================== */
+
+const UNIT_NAME: Record<string, string> = {
+  head: "tête",
+  polyp: "polype",
+};
+
+// ✅ WYSIWYG / colonie = pièce unique => pas comparable au prix par tête
+export function isWysiwygOffer(l: Listing): boolean {
+  return l.sale_mode === "wysiwyg" || l.unit_type === "colony";
+}
+
+/**
+ * ✅ prix effectif / nb d'unités ("3 heads pour 240$" => 80$ / tête)
+ * tête sans nombre = "1+ head" => on compte 1 (prix par tête au pire)
+ * null = pas comparable (WYSIWYG, colonie, unité inconnue)
+ */
+export function pricePerUnit(l: Listing): number | null {
+  if (isWysiwygOffer(l)) return null;
+
+  const price = displayPrice(l);
+  if (price == null || !l.unit_type || !UNIT_NAME[l.unit_type]) return null;
+
+  const count = l.unit_count ?? (l.unit_type === "head" ? 1 : null);
+  if (!count || count <= 0) return null;
+
+  return price / count;
+}
+
+export function unitPriceLabel(l: Listing): string | null {
+  const ppu = pricePerUnit(l);
+  if (ppu == null) return null;
+  return `${formatCad(ppu)} / ${UNIT_NAME[l.unit_type || ""]}`;
+}
+
+/**
+ * ✅ tri "price_per_unit_asc" :
+ * 1) offres par unité (prix / unité croissant, unité inconnue à la fin)
+ * 2) WYSIWYG / colonies, à part (prix croissant)
+ * sold_out en bas de CHAQUE groupe
+ */
+export function comparePricePerUnit(a: Listing, b: Listing): number {
+  const wa = isWysiwygOffer(a) ? 1 : 0;
+  const wb = isWysiwygOffer(b) ? 1 : 0;
+  if (wa !== wb) return wa - wb;
+
+  const aSO = a.status === "sold_out" ? 1 : 0;
+  const bSO = b.status === "sold_out" ? 1 : 0;
+  if (aSO !== bSO) return aSO - bSO;
+
+  const ua = pricePerUnit(a);
+  const ub = pricePerUnit(b);
+  if (ua != null && ub != null && ua !== ub) return ua - ub;
+  if (ua == null && ub != null) return 1;
+  if (ua != null && ub == null) return -1;
+
+  return (displayPrice(a) ?? 999999) - (displayPrice(b) ?? 999999);
+}
@@ -0,0 +1,233 @@
+import { DeadlineError, fetchJson, fetchWithRetry } from "../http";
+import type { DiscoverCursor, Listing, ListingOffer, ShopAdapter, SourceStats } from "../types";
+import { parseUnits } from "../units";
+import { canonicalProductUrl, effectivePrice, enforceTorch, norm, priceNum, safePrice } from "../utils";
+
+/* ================= SHOPIFY CATALOG (/products.json) ================= */
+
+function tagsToArray(tags: any): string[] {
+  if (!tags) return [];
+  if (Array.isArray(tags)) return tags.map((x) => String(x));
+  return String(tags)
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function productLooksTorch(p: any): boolean {
+  const title = String(p?.title || "").toLowerCase();
+  const tags = tagsToArray(p?.tags).map((t) => t.toLowerCase());
+
+  if (title.includes("torch") || title.includes("torche")) return true;
+  if (tags.some((t) => t.includes("torch"))) return true;
+
+  if (title.includes("glabrescens")) return true;
+  if (tags.some((t) => t.includes("glabrescens"))) return true;
+
+  return false;
+}
+
+/**
+ * ✅ pages `fromPage`.. de /products.json
+ * échéance du morceau atteinte => resume = page à relire au morceau suivant (products = pages déjà lues)
+ * capped = arrêt à `limit` produits (liste incomplète)
+ */
+export async function fetchShopifyCatalogProducts(
+  origin: string,
+  stats: SourceStats,
+  fromPage = 1,
+  limit: number | null = null
+): Promise<{ products: any[]; resume: DiscoverCursor | null; capped: boolean }> {
+  const out: any[] = [];
+
+  // plus doux => moins de 429 (page de 100 produits = requête lourde pour le limiter du host)
+  const LIMIT = 100;
+  const PAGE_COST = 3;
+
+  for (let page = fromPage; page < 200; page++) {
+    const url = `${origin}/products.json?limit=${LIMIT}&page=${page}`;
+    let j: { products?: unknown[] } | null;
+    try {
+      j = await fetchJson(url, PAGE_COST);
+    } catch (e) {
+      if (e instanceof DeadlineError) return { products: out, resume: { page }, capped: false };
+      throw e;
+    }
+    stats.pages_visited++;
+
+    const arr = j?.products ?? [];
+    if (!arr.length) break;
+
+    out.push(...arr);
+    if (limit && out.length >= limit) return { products: out, resume: null, capped: true };
+  }
+
+  return { products: out, resume: null, capped: false };
+}
+
+// variant Shopify déjà scoré (prix normalisés + dispo)
+type ShopifyVariant = {
+  id?: number | string;
+  title?: string | null;
+  featured_image?: { src?: string } | null;
+};
+
+export type ScoredVariant = {
+  v: ShopifyVariant;
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  eff: number | null;
+  available: boolean;
+};
+
+export function shopifyVariantTitle(v: ShopifyVariant | null): string | null {
+  return v?.title && String(v.title).toLowerCase() !== "default title" ? String(v.title) : null;
+}
+
+/**
+ * ✅ variant_mode "all" : 1 offre par variant avec prix (prix / dispo / nb de têtes propres)
+ * 1 seul variant ("Default Title") => pas d'offres, le listing suffit
+ */
+export function shopifyVariantOffers(scored: ScoredVariant[]): ListingOffer[] | undefined {
+  if (scored.length < 2) return undefined;
+
+  return scored
+    .filter((x) => x.eff != null)
+    .map((x, i) => {
+      const title = shopifyVariantTitle(x.v);
+      const units = parseUnits(title);
+      return {
+        variant_id: x.v?.id != null ? String(x.v.id) : `#${i}`,
+        title,
+        price_cad: x.price_cad,
+        sale_price_cad: x.sale_price_cad,
+        status: x.available ? "available" : "sold_out",
+        unit_type: units?.unit_type ?? null,
+        unit_count: units?.unit_count ?? null,
+      };
+    });
+}
+
+export function buildSingleShopifyListingFromProductsJson(
+  origin: string,
+  p: any,
+  shop_id: string,
+  fallbackCategory: string,
+  allVariants = false
+): Listing | null {
+  const titleBase = norm(p?.title || "Untitled");
+  const handle = String(p?.handle || "").trim();
+  if (!handle) return null;
+
+  const productUrl = `${origin}/products/${handle}`;
+  const url = canonicalProductUrl(productUrl);
+
+  const variants: any[] = Array.isArray(p?.variants) ? p.variants : [];
+  if (!variants.length) return null;
+
+  // ✅ FIX SOLD OUT (Invertsbay, GTAreef, etc.)
+  // On utilise "available" des variants si présent. Sinon on fallback en true.
+  const hasAvailField = variants.some((v) => typeof v?.available === "boolean");
+
+  const scored: ScoredVariant[] = variants.map((v) => {
+    const price = v?.price != null ? priceNum(String(v.price)) : null;
+    const compare = v?.compare_at_price != null ? priceNum(String(v.compare_at_price)) : null;
+
+    const price_cad = compare != null && price != null && compare > price ? compare : price;
+    const sale_price_cad = compare != null && price != null && compare > price ? price : null;
+
+    const eff = effectivePrice(price_cad, sale_price_cad);
+
+    const vAvail = hasAvailField ? v?.available === true : true;
+
+    return {
+      v,
+      price_cad: safePrice(price_cad),
+      sale_price_cad: safePrice(sale_price_cad),
+      eff: safePrice(eff),
+      available: vAvail,
+    };
+  });
+
+  const availablePool = scored.filter((x) => x.available && x.eff != null);
+  const pool = availablePool.length ? availablePool : scored.filter((x) => x.eff != null);
+  if (!pool.length) return null;
+
+  pool.sort((a, b) => a.eff! - b.eff!);
+  const best = pool[0];
+
+  const variantTitle = shopifyVariantTitle(best.v);
+
+  const imageUrl = p?.image?.src || (Array.isArray(p?.images) ? p.images?.[0]?.src : null) || null;
+
+  // ✅ IMPORTANT: on garde la catégorie source (fallbackCategory) pour "tout les coraux"
+  const category = fallbackCategory;
+
+  const listing = enforceTorch({
+    shop_id,
+    category,
+    title_raw: variantTitle ? `${titleBase} — ${variantTitle}` : titleBase,
+    url,
+    image_url: imageUrl,
+    price_cad: best.price_cad,
+    sale_price_cad: best.sale_price_cad,
+    status: best.available ? "available" : "sold_out",
+    variant: variantTitle,
+    sale_mode: null,
+    unit_type: null,
+    unit_count: null,
+  });
+
+  return allVariants ? { ...listing, offers: shopifyVariantOffers(scored) } : listing;
+}
+
+export async function isShopifyOrigin(origin: string): Promise<boolean> {
+  try {
+    const url = `${origin}/products.json?limit=1&page=1`;
+    const r = await fetchWithRetry(url, 3);
+    if (!r.ok) return false;
+    const j = await r.json();
+    return Array.isArray(j?.products);
+  } catch (e) {
+    // ⚠️ échéance != "pas Shopify" (sinon la source passerait en crawl pour ce morceau)
+    if (e instanceof DeadlineError) throw e;
+    return false;
+  }
+}
+
+/* ================= ADAPTER ================= */
+
+/**
+ * ✅ catalogue complet Shopify = coverage max (ReefSolution, CandyCorals, etc.)
+ * 1 seul passage sur /products.json, pas de fetch par produit
+ */
+export const shopifyCatalogAdapter: ShopAdapter = {
+  id: "shopify-catalog",
+  label: "Shopify catalog (/products.json)",
+
+  detect: (src) => isShopifyOrigin(new URL(src.url).origin),
+  claims: () => false,
+
+  async discover(src, stats, cursor, limit) {
+    const origin = new URL(src.url).origin;
+    const { products, resume, capped } = await fetchShopifyCatalogProducts(origin, stats, cursor?.page ?? 1, limit);
+
+    return {
+      products: products.map((p) => ({ url: `${origin}/products/${String(p?.handle || "").trim()}`, data: p })),
+      complete: !resume && !capped,
+      resume: resume ?? undefined,
+    };
+  },
+
+  async parse(ref, src) {
+    if (!ref.data) return null;
+    const origin = new URL(ref.url).origin;
+    return buildSingleShopifyListingFromProductsJson(
+      origin,
+      ref.data,
+      src.shop_id,
+      src.category,
+      src.variant_mode === "all"
+    );
+  },
+};
@@ -0,0 +1,150 @@
+import * as cheerio from "cheerio";
+import { discoverProductPages } from "../crawl";
+import { fetchHtml } from "../http";
+import type { ShopAdapter } from "../types";
+import { canonicalProductUrl, effectivePrice, enforceTorch, norm, normalizeUrl, priceNum, safePrice } from "../utils";
+
+/* ================= HTML FALLBACK (Shopify) ================= */
+
+type ShopifyHtmlFallback = {
+  title: string;
+  imageUrl: string | null;
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  status: "available" | "sold_out";
+  variantTitle: string | null;
+};
+
+// Shopify fallback HTML robuste (évite prix "from" genre 36)
+export function parseShopifyHtmlFallback(url: string, html: string): ShopifyHtmlFallback {
+  const $ = cheerio.load(html);
+
+  const title = norm($("h1").first().text()) || norm($("title").text()) || "Untitled";
+
+  const imageUrl = $('meta[property="og:image"]').attr("content") || $('meta[name="og:image"]').attr("content") || null;
+
+  // 1) ShopifyAnalytics.meta.product (variants/prix)
+  try {
+    const scripts = $("script")
+      .map((_, el) => $(el).html() || "")
+      .get()
+      .join("\n");
+
+    const m = scripts.match(/ShopifyAnalytics\.meta\s*=\s*(\{[\s\S]*?\});/);
+    if (m?.[1]) {
+      const meta = JSON.parse(m[1]);
+      const product = meta?.product;
+
+      if (product?.variants?.length) {
+        const variants: any[] = product.variants;
+
+        const scored = variants.map((v: any) => {
+          const price = typeof v?.price === "number" ? v.price / 100 : null;
+          const compare = typeof v?.compare_at_price === "number" ? v.compare_at_price / 100 : null;
+
+          const price_cad = compare != null && price != null && compare > price ? compare : price;
+          const sale_price_cad = compare != null && price != null && compare > price ? price : null;
+
+          const eff = effectivePrice(price_cad, sale_price_cad);
+
+          return {
+            v,
+            price_cad: safePrice(price_cad),
+            sale_price_cad: safePrice(sale_price_cad),
+            eff: safePrice(eff),
+            available: v?.available === true,
+          };
+        });
+
+        const availablePool = scored.filter((x) => x.available && x.eff != null);
+        const pool = availablePool.length ? availablePool : scored.filter((x) => x.eff != null);
+
+        if (pool.length) {
+          pool.sort((a, b) => a.eff! - b.eff!);
+          const best = pool[0];
+
+          const variantTitle =
+            best.v?.title && String(best.v.title).toLowerCase() !== "default title" ? String(best.v.title) : null;
+
+          return {
+            title,
+            imageUrl,
+            price_cad: best.price_cad,
+            sale_price_cad: best.sale_price_cad,
+            status: best.available ? "available" : "sold_out",
+            variantTitle,
+          };
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+
+  // 2) meta price
+  const metaPrice =
+    $('meta[property="product:price:amount"]').attr("content") ||
+    $('meta[property="og:price:amount"]').attr("content") ||
+    $('meta[itemprop="price"]').attr("content") ||
+    null;
+
+  const pMeta = metaPrice ? priceNum(metaPrice) : null;
+
+  // 3) JSON-LD offers
+  let ldPrice: number | null = null;
+  try {
+    $('script[type="application/ld+json"]').each((_, el) => {
+      const raw = $(el).text();
+      if (!raw) return;
+      const j = JSON.parse(raw);
+      const offers = j?.offers;
+      const price = Array.isArray(offers) ? offers?.[0]?.price : offers?.price;
+      if (price != null && ldPrice == null) ldPrice = priceNum(String(price));
+    });
+  } catch {}
+
+  // 4) dernier recours: texte
+  const textPrice = norm($('[class*="price"]').first().text());
+  const pText = textPrice ? priceNum(textPrice) : null;
+
+  const price = safePrice(pMeta ?? ldPrice ?? pText ?? null);
+
+  const lower = html.toLowerCase();
+  const status: "available" | "sold_out" = lower.includes("sold out") ? "sold_out" : "available";
+
+  return { title, imageUrl, price_cad: price, sale_price_cad: null, status, variantTitle: null };
+}
+
+/* ================= ADAPTER ================= */
+
+export const shopifyHtmlAdapter: ShopAdapter = {
+  id: "shopify-html",
+  label: "Shopify HTML (fallback)",
+
+  // crawl seulement (pas d'auto-détection au niveau source)
+  detect: async () => false,
+  claims: (url) => url.includes("/products/"),
+
+  discover: discoverProductPages,
+
+  async parse(ref, src) {
+    const url = normalizeUrl(ref.url);
+    const productHtml = await fetchHtml(url);
+    const fb = parseShopifyHtmlFallback(url, productHtml);
+
+    return enforceTorch({
+      shop_id: src.shop_id,
+      category: src.category,
+      title_raw: fb.variantTitle ? `${fb.title} — ${fb.variantTitle}` : fb.title,
+      url: canonicalProductUrl(url),
+      image_url: fb.imageUrl,
+      price_cad: safePrice(fb.price_cad),
+      sale_price_cad: safePrice(fb.sale_price_cad),
+      status: fb.status,
+      variant: fb.variantTitle,
+      sale_mode: null,
+      unit_type: null,
+      unit_count: null,
+    });
+  },
+};
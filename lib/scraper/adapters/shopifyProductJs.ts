@@ -0,0 +1,112 @@
+import { discoverProductPages } from "../crawl";
+import { DeadlineError, fetchJson } from "../http";
+import type { Listing, ShopAdapter } from "../types";
+import { canonicalProductUrl, effectivePrice, enforceTorch, norm, normalizeUrl, safePrice } from "../utils";
+import type { ScoredVariant } from "./shopifyCatalog";
+import { shopifyVariantOffers, shopifyVariantTitle } from "./shopifyCatalog";
+import { shopifyHtmlAdapter } from "./shopifyHtml";
+
+/* ================= SHOPIFY (product.js) ================= */
+
+export async function fetchShopifyProduct(url: string) {
+  try {
+    const u = new URL(url);
+    const m = u.pathname.match(/\/products\/([^/]+)/);
+    if (!m) return null;
+
+    const js = `${u.origin}/products/${m[1]}.js`;
+    return await fetchJson(js);
+  } catch (e) {
+    // échéance => le produit est repris au morceau suivant (pas de repli HTML)
+    if (e instanceof DeadlineError) throw e;
+    return null;
+  }
+}
+
+/**
+ * ✅ 1 SEULE LIGNE PAR PRODUIT SHOPIFY (ZÉRO doublon)
+ * on choisit le meilleur variant "available" (prix effectif le + bas)
+ * et on upsert avec l'URL canonique SANS ?variant
+ * (allVariants : les autres variants partent en offres, voir listing_offers)
+ */
+export function buildSingleShopifyListing(
+  productUrl: string,
+  product: any,
+  shop_id: string,
+  category: string,
+  allVariants = false
+): Listing | null {
+  const titleBase = norm(product?.title || "Untitled");
+  const url = canonicalProductUrl(productUrl);
+
+  const variants: any[] = Array.isArray(product?.variants) ? product.variants : [];
+  if (!variants.length) return null;
+
+  const scored: ScoredVariant[] = variants.map((v) => {
+    const price = typeof v?.price === "number" ? v.price / 100 : null;
+    const compare = typeof v?.compare_at_price === "number" ? v.compare_at_price / 100 : null;
+
+    const price_cad = compare != null && price != null && compare > price ? compare : price;
+    const sale_price_cad = compare != null && price != null && compare > price ? price : null;
+
+    const eff = effectivePrice(price_cad, sale_price_cad);
+
+    return {
+      v,
+      price_cad: safePrice(price_cad),
+      sale_price_cad: safePrice(sale_price_cad),
+      eff: safePrice(eff),
+      available: v?.available === true,
+    };
+  });
+
+  const availablePool = scored.filter((x) => x.available && x.eff != null);
+  const pool = availablePool.length ? availablePool : scored.filter((x) => x.eff != null);
+  if (!pool.length) return null;
+
+  pool.sort((a, b) => a.eff! - b.eff!);
+  const best = pool[0];
+
+  const variantTitle = shopifyVariantTitle(best.v);
+
+  const listing = enforceTorch({
+    shop_id,
+    category,
+    title_raw: variantTitle ? `${titleBase} — ${variantTitle}` : titleBase,
+    url,
+    image_url: best.v?.featured_image?.src || product?.featured_image || product?.images?.[0] || null,
+    price_cad: best.price_cad,
+    sale_price_cad: best.sale_price_cad,
+    status: best.available ? "available" : "sold_out",
+    variant: variantTitle,
+    sale_mode: null,
+    unit_type: null,
+    unit_count: null,
+  });
+
+  return allVariants ? { ...listing, offers: shopifyVariantOffers(scored) } : listing;
+}
+
+/* ================= ADAPTER ================= */
+
+export const shopifyProductJsAdapter: ShopAdapter = {
+  id: "shopify-product-js",
+  label: "Shopify product.js",
+
+  // crawl seulement (pas d'auto-détection au niveau source)
+  detect: async () => false,
+  claims: (url) => url.includes("/products/"),
+
+  discover: discoverProductPages,
+
+  async parse(ref, src) {
+    const url = normalizeUrl(ref.url);
+
+    // Shopify (1 ligne par produit)
+    const shopify = await fetchShopifyProduct(url);
+    if (shopify) return buildSingleShopifyListing(url, shopify, src.shop_id, src.category, src.variant_mode === "all");
+
+    // Shopify HTML fallback
+    return shopifyHtmlAdapter.parse({ url }, src);
+  },
+};
@@ -0,0 +1,190 @@
+import * as cheerio from "cheerio";
+import { DeadlineError, fetchWithRetry } from "../http";
+import type { DiscoverCursor, Listing, ShopAdapter, SourceStats } from "../types";
+import { enforceTorch, norm, normalizeUrl, safePrice } from "../utils";
+import { absolutizeImg } from "./woocommerceHtml";
+
+/* ================= WOO STORE API (/wp-json/wc/store/v1/products) ================= */
+
+// sous-ensemble de la réponse Store API qu'on utilise
+type WooStorePrices = {
+  price?: string;
+  regular_price?: string;
+  sale_price?: string;
+  currency_minor_unit?: number;
+  price_range?: { min_amount?: string; max_amount?: string } | null;
+};
+
+type WooStoreProduct = {
+  id: number;
+  name?: string;
+  permalink?: string;
+  is_in_stock?: boolean;
+  prices?: WooStorePrices;
+  images?: Array<{ src?: string }>;
+  categories?: Array<{ slug?: string; name?: string }>;
+};
+
+const STORE_API_PATH = "/wp-json/wc/store/v1/products";
+
+// garde-fou : 200 pages x 100 produits
+const MAX_PAGES = 200;
+
+// "1999" + minor unit 2 => 19.99
+function minorToCad(raw: string | undefined, minorUnit: number): number | null {
+  if (raw == null || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return null;
+  return n / Math.pow(10, minorUnit);
+}
+
+// les noms Store API contiennent des entités HTML (&#8211; etc.)
+function decodeHtml(s: string) {
+  return cheerio.load(`<p>${s}</p>`)("p").text();
+}
+
+/**
+ * ✅ slug de catégorie depuis l'url source (/product-category/coraux/torch/ => "torch")
+ * null = page shop entière (pas de filtre => crawl auto, voir detect)
+ */
+function categorySlugFromSourceUrl(raw: string): string | null {
+  try {
+    // on ignore /page/n/ éventuel
+    const path = new URL(raw).pathname.replace(/\/page\/\d+\/?$/, "");
+    const parts = path.split("/").filter(Boolean);
+    const i = parts.findIndex((p) => p === "product-category" || p === "categorie-produit");
+    if (i < 0 || i === parts.length - 1) return null;
+    return parts[parts.length - 1];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * même principe que fetchShopifyCatalogProducts : resume = page à relire au morceau suivant
+ * capped = garde-fou MAX_PAGES atteint avant la dernière page, ou arrêt à `limit` produits (liste incomplète)
+ */
+export async function fetchWooStoreProducts(
+  origin: string,
+  category: string | null,
+  stats: SourceStats,
+  fromPage = 1,
+  limit: number | null = null
+): Promise<{ products: WooStoreProduct[]; resume: DiscoverCursor | null; capped: boolean }> {
+  const out: WooStoreProduct[] = [];
+
+  // plus doux => moins de 429 (page de 100 produits = requête lourde pour le limiter du host)
+  const PER_PAGE = 100;
+  const PAGE_COST = 3;
+
+  for (let page = fromPage; page <= MAX_PAGES; page++) {
+    const u = new URL(`${origin}${STORE_API_PATH}`);
+    u.searchParams.set("per_page", String(PER_PAGE));
+    u.searchParams.set("page", String(page));
+    if (category) u.searchParams.set("category", category);
+
+    let r: Response;
+    try {
+      r = await fetchWithRetry(u.toString(), 10, PAGE_COST);
+    } catch (e) {
+      if (e instanceof DeadlineError) return { products: out, resume: { page }, capped: false };
+      throw e;
+    }
+    const arr = (await r.json()) as WooStoreProduct[];
+    stats.pages_visited++;
+
+    if (!Array.isArray(arr) || !arr.length) return { products: out, resume: null, capped: false };
+    out.push(...arr);
+    if (limit && out.length >= limit) return { products: out, resume: null, capped: true };
+
+    const totalPages = Number(r.headers.get("x-wp-totalpages"));
+    if (Number.isFinite(totalPages) && totalPages > 0 && page >= totalPages) {
+      return { products: out, resume: null, capped: false };
+    }
+  }
+
+  // ⚠️ sorti par le garde-fou : des produits manquent => pas de retrait des "non vus"
+  return { products: out, resume: null, capped: true };
+}
+
+export function buildListingFromWooStoreProduct(p: WooStoreProduct, shop_id: string, category: string): Listing | null {
+  if (!p?.permalink) return null;
+
+  const prices = p.prices ?? {};
+  const minor = typeof prices.currency_minor_unit === "number" ? prices.currency_minor_unit : 2;
+
+  // produit variable => prix "à partir de" (variation la moins chère)
+  const current = minorToCad(prices.price_range?.min_amount ?? prices.price, minor);
+  const regular = minorToCad(prices.regular_price, minor);
+
+  const price_cad = regular != null && current != null && regular > current ? regular : current;
+  const sale_price_cad = regular != null && current != null && regular > current ? current : null;
+
+  const url = normalizeUrl(p.permalink);
+
+  return enforceTorch({
+    shop_id,
+    category,
+    title_raw: norm(decodeHtml(p.name || "")) || "Untitled",
+    url,
+    image_url: absolutizeImg(url, p.images?.[0]?.src),
+    price_cad: safePrice(price_cad),
+    sale_price_cad: safePrice(sale_price_cad),
+    status: p.is_in_stock === false ? "sold_out" : "available",
+    variant: null,
+    sale_mode: null,
+    unit_type: null,
+    unit_count: null,
+  });
+}
+
+// ✅ même principe que isShopifyOrigin : la route répond un tableau JSON
+export async function isWooStoreApiOrigin(origin: string): Promise<boolean> {
+  try {
+    const r = await fetchWithRetry(`${origin}${STORE_API_PATH}?per_page=1`, 3);
+    if (!r.ok) return false;
+    const j = await r.json();
+    return Array.isArray(j);
+  } catch (e) {
+    // ⚠️ échéance != "pas de Store API" (même raison que isShopifyOrigin)
+    if (e instanceof DeadlineError) throw e;
+    return false;
+  }
+}
+
+/* ================= ADAPTER ================= */
+
+/**
+ * ✅ Woo (ABC AquaPlus, Fragbox, Reef Wonders...) : prix, soldes, stock et images en JSON
+ * => plus besoin de deviner la pagination ni de parser chaque fiche produit
+ * (le crawl HTML reste le fallback si /wp-json est bloqué)
+ */
+export const woocommerceStoreApiAdapter: ShopAdapter = {
+  id: "woocommerce-store-api",
+  label: "WooCommerce Store API (/wp-json/wc/store)",
+
+  // ⚠️ source sans /product-category/ => pas de filtre possible : tout le catalogue du shop serait importé
+  // => on laisse la place au crawl auto (la page source limite ce qui est découvert)
+  detect: async (src) => !!categorySlugFromSourceUrl(src.url) && isWooStoreApiOrigin(new URL(src.url).origin),
+  claims: () => false,
+
+  async discover(src, stats, cursor, limit) {
+    const origin = new URL(src.url).origin;
+    // adapter épinglé sur une source sans catégorie : même raison que detect
+    const category = categorySlugFromSourceUrl(src.url);
+    if (!category) throw new Error(`Woo Store API discover failed: no product category in ${src.url}`);
+
+    const { products, resume, capped } = await fetchWooStoreProducts(origin, category, stats, cursor?.page ?? 1, limit);
+
+    return {
+      products: products.filter((p) => p?.permalink).map((p) => ({ url: p.permalink!, data: p })),
+      complete: !resume && !capped,
+      resume: resume ?? undefined,
+    };
+  },
+
+  async parse(ref, src) {
+    if (!ref.data) return null;
+    return buildListingFromWooStoreProduct(ref.data as WooStoreProduct, src.shop_id, src.category);
+  },
+};
@@ -0,0 +1,162 @@
+import type { VariantDef } from "../variants";
+import type { Listing } from "./types";
+
+/* ================= TYPE DE CORAIL (coral_type) ================= */
+
+export type CoralType =
+  | "non-coral"
+  | "zoa"
+  | "paly"
+  | "acro"
+  | "monti"
+  | "chalice"
+  | "mushroom"
+  | "acan"
+  | "leather"
+  | "goniopora"
+  | "duncan"
+  | "hammer"
+  | "frogspawn"
+  | "torch";
+
+export type CoralTypeGuess = {
+  coral_type: CoralType | null;
+  coral_type_confidence: number | null; // 0..1
+};
+
+/**
+ * ⚠️ L'ORDRE compte : en cas d'égalité, la 1re règle gagne (ex: "Hammer / Torch combo" => hammer)
+ *
+ * - strong : le mot désigne le type à coup sûr ("torch", "zoanthus")
+ * - weak : nom commercial d'une variante (coral_variants + alias, ex: "rapunzel") sans le mot du type
+ * - wholeWord : mot entier (ou pluriel en -s) au lieu d'un début de mot
+ *
+ * ⚠️ non-coral : SEULEMENT si aucun mot fort d'un corail ("Torch coral on frag plug" => torch, "Zoa + snail" => zoa)
+ */
+const RULES: Array<{ type: CoralType; strong: string[]; wholeWord?: boolean }> = [
+  {
+    type: "non-coral",
+    // "fish" ne doit pas matcher "fisheye", ni "clam" "clamshell"
+    wholeWord: true,
+    strong: [
+      "snail",
+      "escargot",
+      "fish",
+      "poisson",
+      "crab",
+      "crabe",
+      "urchin",
+      "oursin",
+      "shrimp",
+      "crevette",
+      "starfish",
+      "clam",
+      "frag plug",
+      "glue",
+      "colle",
+      "food",
+      "nourriture",
+    ],
+  },
+  { type: "zoa", strong: ["zoa", "zoanthid", "zoanthus"] },
+  { type: "paly", strong: ["paly", "palythoa"] },
+  { type: "acro", strong: ["acro", "acropora"] },
+  { type: "monti", strong: ["monti", "montipora"] },
+  { type: "chalice", strong: ["chalice", "calice", "echinophyllia", "oxypora", "mycedium"] },
+  {
+    type: "mushroom",
+    strong: ["mushroom", "shroom", "champignon", "discosoma", "rhodactis", "ricordea", "ricordia", "yuma"],
+  },
+  { type: "acan", strong: ["acan", "acanthastrea", "micromussa"] },
+  { type: "leather", strong: ["leather", "sarcophyton", "sinularia", "toadstool"] },
+  { type: "goniopora", strong: ["goniopora", "alveopora"] },
+  { type: "duncan", strong: ["duncan"] },
+  { type: "hammer", strong: ["hammer", "ancora", "marteau"] },
+  { type: "frogspawn", strong: ["frogspawn", "octospawn", "divisa"] },
+  // noms commerciaux (weak) : lus dans coral_variants, voir classifyCoralType
+  { type: "torch", strong: ["torch", "torche", "glabrescens"] },
+];
+
+const STRONG = 0.95;
+const WEAK = 0.6;
+const CATEGORY_ONLY = 0.5; // rien dans le titre, on se fie à la catégorie de la source
+const AMBIGUOUS_FACTOR = 0.6; // 2 types différents trouvés dans le titre
+
+// minuscules, sans accents, ponctuation => espaces
+function fold(t: string) {
+  return ` ${t
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+}
+
+// début de mot : "zoa" matche "zoas" / "zoanthus" mais pas "bazooka"
+function hasWord(hay: string, word: string) {
+  return hay.includes(` ${word}`);
+}
+
+// "snail" / "snails", mais pas "snailfish"
+function hasWholeWord(hay: string, word: string) {
+  return hay.includes(` ${word} `) || hay.includes(` ${word}s `);
+}
+
+// nom / alias de la variante dans le titre (et aucun de ses mots d'exclusion)
+function variantNamed(hay: string, v: VariantDef) {
+  if (!v.impliesType) return false;
+  if (v.exclude.some((w) => hasWord(hay, fold(w).trim()))) return false;
+  return [v.name, ...v.aliases].some((w) => {
+    const f = fold(w).trim();
+    return !!f && hasWord(hay, f);
+  });
+}
+
+function isCoralType(s: string): s is CoralType {
+  return RULES.some((r) => r.type === s);
+}
+
+/**
+ * ✅ type de corail depuis titre + variant (+ catégorie source en dernier recours)
+ * confiance : 0.95 mot du type, 0.6 nom commercial seul, x0.6 si plusieurs types, 0.5 catégorie seule
+ */
+export function classifyCoralType(
+  title: string,
+  variant: string | null,
+  category: string | null,
+  variants: VariantDef[] = []
+): CoralTypeGuess {
+  const hay = fold(`${title || ""} ${variant || ""}`);
+
+  const hits: Array<{ type: CoralType; score: number }> = [];
+  for (const r of RULES) {
+    if (r.strong.some((w) => (r.wholeWord ? hasWholeWord(hay, w) : hasWord(hay, w)))) {
+      hits.push({ type: r.type, score: STRONG });
+    } else if (variants.some((v) => v.type === r.type && variantNamed(hay, v))) {
+      hits.push({ type: r.type, score: WEAK });
+    }
+  }
+
+  // ✅ accessoire / animal cité dans le titre d'un corail nommé = c'est quand même un corail
+  if (hits.some((h) => h.type !== "non-coral" && h.score === STRONG)) {
+    const i = hits.findIndex((h) => h.type === "non-coral");
+    if (i >= 0) hits.splice(i, 1);
+  }
+
+  if (!hits.length) {
+    const c = (category || "").trim().toLowerCase();
+    if (isCoralType(c)) return { coral_type: c, coral_type_confidence: CATEGORY_ONLY };
+    return { coral_type: null, coral_type_confidence: null };
+  }
+
+  // tri stable => à score égal, l'ordre de RULES décide
+  const [best] = [...hits].sort((a, b) => b.score - a.score);
+  const confidence = hits.length > 1 ? best.score * AMBIGUOUS_FACTOR : best.score;
+
+  return { coral_type: best.type, coral_type_confidence: Math.round(confidence * 100) / 100 };
+}
+
+export function withCoralType(l: Listing | null, variants: VariantDef[]): Listing | null {
+  if (!l) return l;
+  return { ...l, ...classifyCoralType(l.title_raw, l.variant, l.category, variants) };
+}
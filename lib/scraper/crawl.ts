@@ -0,0 +1,184 @@
+import * as cheerio from "cheerio";
+import { DeadlineError, FetchError, fetchHtml } from "./http";
+import { discoverBySitemap } from "./sitemap";
+import type { DiscoverCursor, Discovery, SourceRow, SourceStats } from "./types";
+import { isProductPath, normalizeUrl } from "./utils";
+
+/* ================= LIENS PRODUITS ================= */
+
+export function extractProductLinks(pageUrl: string, html: string) {
+  const $ = cheerio.load(html);
+  const out = new Set<string>();
+
+  $("a[href]").each((_, a) => {
+    const h = $(a).attr("href");
+    if (!h) return;
+    try {
+      const u = new URL(h, pageUrl);
+      if (isProductPath(u.pathname)) out.add(normalizeUrl(u.toString()));
+    } catch {}
+  });
+
+  return [...out];
+}
+
+// ✅ AJOUT: pagination générique (Woo) pour pages category (ABC, etc.)
+// ✅ FIX ReefWonders: support ?product-page= (Woo shop pagination) + ?paged= + /page/n/
+export function makePagedUrl(base: string, n: number) {
+  const u = new URL(base);
+
+  // on garde base "propre"
+  u.searchParams.delete("paged");
+  u.searchParams.delete("product-page");
+
+  const withPagedQuery = new URL(u.toString());
+  withPagedQuery.searchParams.set("paged", String(n));
+
+  const withProductPageQuery = new URL(u.toString());
+  withProductPageQuery.searchParams.set("product-page", String(n));
+
+  const withPath = normalizeUrl(`${u.origin}${u.pathname.replace(/\/+$/, "")}/page/${n}/`);
+
+  return {
+    withPagedQuery: withPagedQuery.toString(),
+    withProductPageQuery: withProductPageQuery.toString(),
+    withPath,
+  };
+}
+
+// page après la dernière : la seule erreur qui veut dire "fin de pagination"
+const GONE_STATUSES = new Set([404, 410]);
+
+// page catégorie = requête plus lourde qu'une fiche produit (pour le limiter du host)
+const CATEGORY_PAGE_COST = 2;
+
+/**
+ * pages `fromPage`.. de la catégorie
+ * échéance du morceau atteinte => resume = page à relire au morceau suivant (links = pages déjà lues)
+ * limit => arrêt dès `limit` liens (complete false)
+ */
+export async function extractLinksWithPagination(
+  startUrl: string,
+  maxPages = 80,
+  fromPage = 1,
+  limit: number | null = null
+): Promise<{ links: string[]; pages: number; complete: boolean; resume: DiscoverCursor | null }> {
+  const all = new Set<string>();
+  let pages = 0;
+
+  // ✅ false si on a arrêté sur autre chose qu'une vraie fin de pagination (429, 5xx, 403, réseau, timeout...)
+  let complete = true;
+
+  for (let p = fromPage; p <= maxPages; p++) {
+    const { withPagedQuery, withProductPageQuery, withPath } = makePagedUrl(startUrl, p);
+
+    let html = "";
+    let got = false;
+    let blocked = false;
+
+    // ⚠️ échéance du morceau : ce n'est PAS une fin de pagination => reprise à cette page
+    const noteFailure = (e: unknown) => {
+      if (e instanceof DeadlineError) throw e;
+      // seul 404 / 410 = "cette page n'existe pas" (fin de pagination) ; le reste = page pas lue
+      if (!(e instanceof FetchError && GONE_STATUSES.has(e.status))) blocked = true;
+    };
+
+    try {
+      // 1) ?product-page=
+      try {
+        html = await fetchHtml(withProductPageQuery, CATEGORY_PAGE_COST);
+        got = true;
+      } catch (e) {
+        noteFailure(e);
+      }
+
+      // 2) ?paged=
+      if (!got) {
+        try {
+          html = await fetchHtml(withPagedQuery, CATEGORY_PAGE_COST);
+          got = true;
+        } catch (e) {
+          noteFailure(e);
+        }
+      }
+
+      // 3) /page/n/
+      if (!got) {
+        try {
+          html = await fetchHtml(withPath, CATEGORY_PAGE_COST);
+          got = true;
+        } catch (e) {
+          noteFailure(e);
+        }
+      }
+    } catch (e) {
+      if (e instanceof DeadlineError) return { links: [...all], pages, complete, resume: { page: p } };
+      throw e;
+    }
+    pages++;
+
+    if (!got) {
+      // ✅ page 1 introuvable => on ne sait RIEN de ce shop, on ne doit pas retirer ses listings
+      if (p === 1) throw new Error(`Category page unreachable (${startUrl})`);
+      if (blocked) complete = false;
+      break;
+    }
+
+    const links = extractProductLinks(startUrl, html);
+    const before = all.size;
+
+    for (const l of links) all.add(normalizeUrl(l));
+
+    const added = all.size - before;
+    if (added === 0) break;
+
+    if (limit && all.size >= limit) {
+      complete = false;
+      break;
+    }
+  }
+
+  return { links: [...all], pages, complete, resume: null };
+}
+
+/* ================= DISCOVERY (crawl des pages catégorie) ================= */
+
+// ✅ on monte la limite pour éviter de couper trop tôt
+const MAX_CRAWL_PRODUCTS = 1800;
+
+/**
+ * Discovery partagée par les adapters "crawl" (Shopify product.js / HTML, Woo HTML) :
+ * pages catégorie paginées => liens produits.
+ */
+export async function discoverByCrawl(
+  src: SourceRow,
+  stats: SourceStats,
+  cursor?: DiscoverCursor | null,
+  limit?: number | null
+): Promise<Discovery> {
+  const { links, pages, complete, resume } = await extractLinksWithPagination(src.url, 80, cursor?.page ?? 1, limit);
+  stats.pages_visited += pages;
+
+  return {
+    products: links.slice(0, MAX_CRAWL_PRODUCTS).map((url) => ({ url })),
+    // ✅ produits au-delà de la limite = pas vus => pas de retrait
+    complete: !resume && complete && links.length <= MAX_CRAWL_PRODUCTS,
+    resume: resume ?? undefined,
+  };
+}
+
+/**
+ * ✅ discovery des adapters "page produit" selon scrape_sources.discovery :
+ * - "sitemap" : sitemap.xml (tous les produits + lastmod)
+ * - sinon : crawl des pages catégorie
+ */
+export function discoverProductPages(
+  src: SourceRow,
+  stats: SourceStats,
+  cursor?: DiscoverCursor | null,
+  limit?: number | null
+): Promise<Discovery> {
+  // sitemap : pas de reprise (DeadlineError remonte, la discovery repart de zéro au morceau suivant)
+  if (src.discovery === "sitemap") return discoverBySitemap(src, stats, limit);
+  return discoverByCrawl(src, stats, cursor, limit);
+}
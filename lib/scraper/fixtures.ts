@@ -0,0 +1,203 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { discoverProductPages } from "./crawl";
+import type { Fetcher } from "./http";
+import { adapterForProductUrl, resolveAdapter } from "./registry";
+import { emptyStats } from "./run";
+import type { Listing, SourceRow } from "./types";
+
+/* ================= FIXTURES (réponses de shops enregistrées) ================= */
+
+/**
+ * ✅ 1 dossier par shop : fixtures/shops/<name>/
+ * - fixture.json : source + index des réponses (url => status, content-type, fichier)
+ * - responses/ : corps bruts (html / json / xml) tels que servis par le shop
+ * - expected.json : snapshot des listings parsés (voir FixtureSnapshot)
+ * usage : npm run fixtures:record / npm run check:fixtures (scripts/)
+ */
+export const FIXTURES_DIR = path.join(process.cwd(), "fixtures", "shops");
+
+// les listings d'une fixture ne sont jamais écrits : shop_id factice
+const FIXTURE_SHOP_ID = "fixture";
+
+export type FixtureSource = Pick<SourceRow, "url" | "category" | "adapter" | "discovery" | "variant_mode">;
+
+export type RecordedResponse = {
+  url: string;
+  status: number;
+  content_type: string | null;
+  headers?: Record<string, string>; // voir KEPT_HEADERS
+  file: string; // dans responses/
+};
+
+export type ShopFixture = {
+  name: string;
+  recorded_at: string;
+  source: FixtureSource;
+  limit: number; // nb de produits parsés (les N premiers de la discovery)
+  responses: RecordedResponse[];
+};
+
+export type CapturedBody = {
+  status: number;
+  content_type: string | null;
+  headers?: Record<string, string>;
+  body: string;
+};
+
+// en-têtes lus par les adapters (ex: fin de pagination de la Store API Woo) : gardés avec le corps
+const KEPT_HEADERS = ["x-wp-total", "x-wp-totalpages"];
+
+/**
+ * ✅ ce que les parsers produisent pour ce shop (adapter brut : ni coral_type, ni overrides)
+ * - products : urls trouvées par la discovery (extractProductLinks, sitemap, products.json...)
+ * - listings : 1 entrée par produit parsé ; error = le parser a throw
+ */
+export type FixtureSnapshot = {
+  strategy: string | null;
+  complete: boolean;
+  products: string[];
+  listings: Array<{ url: string; listing?: Listing | null; error?: string }>;
+};
+
+export function fixtureSourceRow(name: string, source: FixtureSource): SourceRow {
+  return { id: `fixture:${name}`, shop_id: FIXTURE_SHOP_ID, is_active: true, ...source };
+}
+
+/* ================= ENREGISTREMENT / REPLAY ================= */
+
+function headersOf(c: CapturedBody) {
+  return { ...c.headers, ...(c.content_type ? { "content-type": c.content_type } : {}) };
+}
+
+function keptHeaders(r: Response): Record<string, string> | undefined {
+  const kept = KEPT_HEADERS.filter((h) => r.headers.has(h)).map((h) => [h, r.headers.get(h) as string]);
+  return kept.length ? Object.fromEntries(kept) : undefined;
+}
+
+// ✅ réseau réel, chaque réponse est gardée (la dernière gagne : un 429 suivi d'un 200 => 200)
+export function recordingFetcher(captured: Map<string, CapturedBody>): Fetcher {
+  return async (url, init) => {
+    const r = await fetch(url, init);
+    const c: CapturedBody = {
+      status: r.status,
+      content_type: r.headers.get("content-type"),
+      headers: keptHeaders(r),
+      body: await r.text(),
+    };
+    captured.set(url, c);
+
+    return new Response(c.body, { status: c.status, headers: headersOf(c) });
+  };
+}
+
+/**
+ * ✅ hors ligne : sert les réponses enregistrées
+ * url inconnue => 404 (comme un shop : fin de pagination, /products.json absent...) + notée dans `missing`
+ */
+export function replayFetcher(captured: Map<string, CapturedBody>, missing: Set<string>): Fetcher {
+  return async (url) => {
+    const c = captured.get(url);
+    if (!c) {
+      missing.add(url);
+      return new Response("Not found (fixture)", { status: 404 });
+    }
+    return new Response(c.body, { status: c.status, headers: headersOf(c) });
+  };
+}
+
+/* ================= SNAPSHOT ================= */
+
+// même chaîne que dryRunSource (adapter résolu, discovery, parse) sans base ni classifieur
+export async function snapshotSource(src: SourceRow, limit: number): Promise<FixtureSnapshot> {
+  const stats = emptyStats();
+  const adapter = await resolveAdapter(src);
+  const { products, complete } = adapter ? await adapter.discover(src, stats) : await discoverProductPages(src, stats);
+
+  const listings: FixtureSnapshot["listings"] = [];
+  for (const ref of products.slice(0, limit)) {
+    const a = adapter ?? adapterForProductUrl(ref.url);
+    try {
+      listings.push({ url: ref.url, listing: await a.parse(ref, src) });
+    } catch (e) {
+      listings.push({ url: ref.url, error: e instanceof Error ? e.message : "Unknown error" });
+    }
+  }
+
+  return { strategy: adapter ? adapter.id : "crawl", complete, products: products.map((p) => p.url), listings };
+}
+
+/* ================= FICHIERS ================= */
+
+function extensionFor(content_type: string | null) {
+  const t = (content_type || "").toLowerCase();
+  if (t.includes("json")) return "json";
+  if (t.includes("xml")) return "xml";
+  if (t.includes("html")) return "html";
+  return "txt";
+}
+
+// ✅ JSON indenté + retour ligne final : diffs git lisibles quand un parser change
+const toJson = (v: unknown) => `${JSON.stringify(v, null, 2)}\n`;
+
+export async function listFixtures(): Promise<string[]> {
+  try {
+    const entries = await readdir(FIXTURES_DIR, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isDirectory())
+      .map((e) => e.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+export async function saveFixture(
+  name: string,
+  source: FixtureSource,
+  limit: number,
+  captured: Map<string, CapturedBody>,
+  snapshot: FixtureSnapshot
+) {
+  const dir = path.join(FIXTURES_DIR, name);
+  // ré-enregistrement : les anciennes réponses ne doivent pas traîner
+  await rm(path.join(dir, "responses"), { recursive: true, force: true });
+  await mkdir(path.join(dir, "responses"), { recursive: true });
+
+  const responses: RecordedResponse[] = [];
+  for (const [url, c] of [...captured].sort(([a], [b]) => a.localeCompare(b))) {
+    const file = `${createHash("sha1").update(url).digest("hex").slice(0, 12)}.${extensionFor(c.content_type)}`;
+    await writeFile(path.join(dir, "responses", file), c.body);
+    responses.push({ url, status: c.status, content_type: c.content_type, headers: c.headers, file });
+  }
+
+  const fixture: ShopFixture = { name, recorded_at: new Date().toISOString(), source, limit, responses };
+  await writeFile(path.join(dir, "fixture.json"), toJson(fixture));
+  await writeExpected(name, snapshot);
+}
+
+export async function loadFixture(name: string): Promise<{ fixture: ShopFixture; captured: Map<string, CapturedBody> }> {
+  const dir = path.join(FIXTURES_DIR, name);
+  const fixture = JSON.parse(await readFile(path.join(dir, "fixture.json"), "utf8")) as ShopFixture;
+
+  const captured = new Map<string, CapturedBody>();
+  for (const r of fixture.responses) {
+    const body = await readFile(path.join(dir, "responses", r.file), "utf8");
+    captured.set(r.url, { status: r.status, content_type: r.content_type, headers: r.headers, body });
+  }
+
+  return { fixture, captured };
+}
+
+export async function readExpected(name: string): Promise<FixtureSnapshot | null> {
+  try {
+    return JSON.parse(await readFile(path.join(FIXTURES_DIR, name, "expected.json"), "utf8")) as FixtureSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeExpected(name: string, snapshot: FixtureSnapshot) {
+  await writeFile(path.join(FIXTURES_DIR, name, "expected.json"), toJson(snapshot));
+}
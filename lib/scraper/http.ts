@@ -0,0 +1,126 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { limiterFor } from "./rateLimit";
+import { jitterMs } from "./utils";
+
+/* ================= FETCHER (remplaçable) ================= */
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+let fetcher: Fetcher = (url, init) => fetch(url, init);
+let rateLimited = true;
+
+/**
+ * ✅ remplace le fetch réseau (replay des fixtures, voir fixtures.ts) ; null = retour au réseau
+ * rateLimit: false => pas d'attente du limiter (rien ne part vers les shops)
+ */
+export function setFetcher(f: Fetcher | null, opts: { rateLimit?: boolean } = {}) {
+  fetcher = f ?? ((url, init) => fetch(url, init));
+  rateLimited = f ? opts.rateLimit ?? true : true;
+}
+
+/* ================= ÉCHÉANCE (budget d'un morceau de run) ================= */
+
+// par appel (pas une variable globale) : 2 scrapes du même process ont chacun leur échéance
+const deadlines = new AsyncLocalStorage<number>();
+
+// ✅ plus le temps de finir la requête (retry, attente du limiter) => l'appelant remet le travail en file
+export class DeadlineError extends Error {
+  constructor(url: string) {
+    super(`Chunk budget exhausted (${url})`);
+  }
+}
+
+/**
+ * ✅ toutes les requêtes lancées dans `fn` s'arrêtent à `deadline` (Date.now())
+ * (sinon 10 tentatives avec backoff jusqu'à 60s dépassent le maxDuration de la fonction)
+ */
+export function withDeadline<T>(deadline: number, fn: () => Promise<T>): Promise<T> {
+  return deadlines.run(deadline, fn);
+}
+
+/* ================= HTTP (retry + backoff) ================= */
+
+function parseRetryAfterSeconds(h: string | null): number | null {
+  if (!h) return null;
+  const n = Number(h);
+  if (Number.isFinite(n) && n > 0) return n;
+  return null;
+}
+
+// ✅ garde le status HTTP (pour distinguer "fin de pagination" (404) de "shop qui nous bloque" (429/5xx))
+export class FetchError extends Error {
+  status: number;
+
+  constructor(status: number, url: string, message = `fetch ${status} (${url})`) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function isRetryableStatus(status: number) {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * ✅ passe par le limiter du host (plus de sleeps fixes chez les appelants)
+ * `cost` > 1 pour les requêtes lourdes (page catalogue, page catégorie)
+ * `headers` : en plus des nôtres (ex: If-None-Match => 304 renvoyé tel quel, voir images.ts)
+ */
+export async function fetchWithRetry(url: string, maxAttempts = 10, cost = 1, headers: Record<string, string> = {}) {
+  let lastErr: any = null;
+  const limiter = limiterFor(url);
+  const deadline = deadlines.getStore() ?? Infinity;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (rateLimited && !(await limiter.take(cost, deadline))) throw new DeadlineError(url);
+    if (Date.now() >= deadline) throw new DeadlineError(url);
+
+    let r: Response;
+    try {
+      r = await fetcher(url, {
+        headers: {
+          "user-agent": "Mozilla/5.0 (compatible; CoralCompareBot/1.0)",
+          "accept-language": "en-CA,en;q=0.9,fr;q=0.8",
+          ...headers,
+        },
+        cache: "no-store",
+        // requête encore en cours à l'échéance => coupée
+        signal: Number.isFinite(deadline) ? AbortSignal.timeout(Math.max(1, deadline - Date.now())) : undefined,
+      });
+    } catch (e) {
+      if (Date.now() >= deadline) throw new DeadlineError(url);
+      throw e;
+    }
+
+    if (r.ok || r.status === 304) {
+      limiter.recover();
+      return r;
+    }
+
+    if (isRetryableStatus(r.status)) {
+      const ra = parseRetryAfterSeconds(r.headers.get("retry-after"));
+      const base = ra != null ? ra * 1000 : 0;
+      const backoff = base || Math.min(60000, 1200 * Math.pow(2, attempt - 1));
+      // ✅ bloque TOUT le host (pas seulement cette requête) et ralentit son rythme
+      limiter.slowDown(backoff + jitterMs(600));
+      lastErr = new FetchError(r.status, url, `HTTP ${r.status} (${url})`);
+      // ✅ prochain essai après l'échéance => on s'arrête là (repris au morceau suivant)
+      if (attempt < maxAttempts && Date.now() + backoff >= deadline) throw new DeadlineError(url);
+      continue;
+    }
+
+    throw new FetchError(r.status, url);
+  }
+
+  throw lastErr || new Error(`fetch failed (${url})`);
+}
+
+export async function fetchHtml(url: string, cost = 1) {
+  const r = await fetchWithRetry(url, 10, cost);
+  return r.text();
+}
+
+export async function fetchJson(url: string, cost = 1) {
+  const r = await fetchWithRetry(url, 10, cost);
+  return r.json();
+}
@@ -0,0 +1,72 @@
+import { mkdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SB } from "../supabaseServer";
+
+/* ================= STOCKAGE DES IMAGES (miroir, voir images.ts) ================= */
+
+// ⚠️ IMPORTANT: NE PAS throw au top-level (sinon Vercel build fail)
+// supabase (défaut) | local | off
+const IMAGE_STORAGE = (process.env.IMAGE_STORAGE || "supabase").toLowerCase();
+const IMAGE_BUCKET = process.env.IMAGE_BUCKET || "listing-images";
+// disque local : servi par Next depuis public/ (dev, worker local)
+const LOCAL_IMAGE_DIR = process.env.IMAGE_LOCAL_DIR || path.join(process.cwd(), "public", "image-mirror");
+const LOCAL_IMAGE_BASE_URL = process.env.IMAGE_LOCAL_BASE_URL || "/image-mirror";
+
+/**
+ * Où vont les fichiers du miroir.
+ * Chemins = hash du contenu => un fichier déjà présent est identique (put idempotent).
+ */
+export type ImageStorage = {
+  id: "supabase" | "local";
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  publicUrl(key: string): string;
+};
+
+export function supabaseImageStorage(supabase: SB, bucket = IMAGE_BUCKET): ImageStorage {
+  return {
+    id: "supabase",
+
+    async put(key, body, contentType) {
+      const { error } = await supabase.storage.from(bucket).upload(key, body, {
+        contentType,
+        cacheControl: "31536000", // contenu immuable (clé = hash)
+        upsert: false,
+      });
+      // ✅ même hash = même fichier : déjà là, rien à faire
+      if (error && !/exists|duplicate/i.test(error.message)) throw new Error(`Image upload failed: ${error.message}`);
+    },
+
+    publicUrl(key) {
+      return supabase.storage.from(bucket).getPublicUrl(key).data.publicUrl;
+    },
+  };
+}
+
+export function localImageStorage(dir = LOCAL_IMAGE_DIR, baseUrl = LOCAL_IMAGE_BASE_URL): ImageStorage {
+  return {
+    id: "local",
+
+    async put(key, body) {
+      const file = path.join(dir, key);
+      const exists = await stat(file).then(
+        () => true,
+        () => false
+      );
+      if (exists) return;
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+
+    publicUrl(key) {
+      return `${baseUrl.replace(/\/+$/, "")}/${key}`;
+    },
+  };
+}
+
+// null = miroir désactivé (IMAGE_STORAGE=off) : les listings gardent seulement image_url
+export function imageStorageFromEnv(supabase: SB): ImageStorage | null {
+  if (IMAGE_STORAGE === "off") return null;
+  if (IMAGE_STORAGE === "local") return localImageStorage();
+  return supabaseImageStorage(supabase);
+}
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import type { SB } from "../supabaseServer";
+import { DeadlineError, fetchWithRetry } from "./http";
+import type { ImageStorage } from "./imageStorage";
+import type { Listing } from "./types";
+
+/* ================= MIROIR DES IMAGES (image_mirror) ================= */
+
+// vignette des cartes résultats (190 px de haut, object-fit cover) : carré ~2x pour les écrans retina
+export const THUMB_SIZE = 400;
+const THUMB_QUALITY = 78;
+
+// image vérifiée il y a moins de 7 jours => aucune requête
+const RECHECK_MS = 7 * 24 * 3600 * 1000;
+// échec récent (hotlink bloqué, 404...) => pas de nouvel essai à chaque run
+const RETRY_FAILED_MS = 24 * 3600 * 1000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// CDN d'images (cdn.shopify.com...) partagés par beaucoup de shops et taillés pour ça : jeton moins cher
+const IMAGE_COST = 0.25;
+
+type MirrorRow = {
+  source_url: string;
+  content_hash: string | null;
+  mirror_path: string | null;
+  thumb_path: string | null;
+  etag: string | null;
+  last_modified: string | null;
+  checked_at: string | null;
+  error_message: string | null;
+};
+
+export type MirroredImage = {
+  image_mirror_url: string | null;
+  image_thumb_url: string | null;
+};
+
+const NO_MIRROR: MirroredImage = { image_mirror_url: null, image_thumb_url: null };
+
+function mirrorError(e: { message: string }) {
+  return new Error(`Image mirror failed: ${e.message}`);
+}
+
+function urlsOf(storage: ImageStorage, row: Pick<MirrorRow, "mirror_path" | "thumb_path">): MirroredImage {
+  return {
+    image_mirror_url: row.mirror_path ? storage.publicUrl(row.mirror_path) : null,
+    image_thumb_url: row.thumb_path ? storage.publicUrl(row.thumb_path) : null,
+  };
+}
+
+const ageMs = (iso: string | null | undefined) => (iso ? Date.now() - new Date(iso).getTime() : Infinity);
+
+async function saveRow(supabase: SB, row: Partial<MirrorRow> & Record<string, unknown>) {
+  const { error } = await supabase.from("image_mirror").upsert(row, { onConflict: "source_url" });
+  if (error) throw mirrorError(error);
+}
+
+// jpeg => jpg (extension du fichier original dans le stockage)
+function extensionOf(format: string | undefined) {
+  if (!format) return "bin";
+  return format === "jpeg" ? "jpg" : format;
+}
+
+/**
+ * ✅ 1 url d'image => original + vignette dans le stockage, sous le hash du contenu
+ * - vérifiée récemment : rien (ni requête, ni upload)
+ * - sinon requête conditionnelle (ETag / Last-Modified) : 304 ou même hash => rien à re-générer
+ * - erreur : le dernier miroir connu reste servi (image supprimée par le shop = justement le cas utile)
+ */
+export async function mirrorImage(supabase: SB, storage: ImageStorage, url: string): Promise<MirroredImage> {
+  const { data, error } = await supabase
+    .from("image_mirror")
+    .select("source_url, content_hash, mirror_path, thumb_path, etag, last_modified, checked_at, error_message")
+    .eq("source_url", url)
+    .maybeSingle();
+  if (error) throw mirrorError(error);
+
+  const prev = data as MirrorRow | null;
+  if (prev && ageMs(prev.checked_at) < (prev.error_message ? RETRY_FAILED_MS : RECHECK_MS)) return urlsOf(storage, prev);
+
+  const now = new Date().toISOString();
+
+  try {
+    const conditional: Record<string, string> = {};
+    if (prev?.content_hash && prev.etag) conditional["if-none-match"] = prev.etag;
+    if (prev?.content_hash && prev.last_modified) conditional["if-modified-since"] = prev.last_modified;
+
+    const r = await fetchWithRetry(url, 3, IMAGE_COST, conditional);
+    if (r.status === 304 && prev) {
+      await saveRow(supabase, { source_url: url, checked_at: now, error_message: null });
+      return urlsOf(storage, prev);
+    }
+
+    const contentType = (r.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+    if (!contentType.startsWith("image/")) throw new Error(`Not an image (${contentType || "no content-type"})`);
+    if (Number(r.headers.get("content-length")) > MAX_IMAGE_BYTES) throw new Error("Image too large");
+
+    const body = Buffer.from(await r.arrayBuffer());
+    if (body.length > MAX_IMAGE_BYTES) throw new Error("Image too large");
+
+    const hash = createHash("sha256").update(body).digest("hex");
+    const validators = { etag: r.headers.get("etag"), last_modified: r.headers.get("last-modified") };
+
+    // ✅ même contenu (serveur sans ETag) => fichiers déjà en place
+    if (prev?.content_hash === hash && prev.mirror_path && prev.thumb_path) {
+      await saveRow(supabase, { source_url: url, ...validators, checked_at: now, error_message: null });
+      return urlsOf(storage, prev);
+    }
+
+    const meta = await sharp(body).metadata();
+    const thumb = await sharp(body)
+      .rotate() // orientation EXIF (photos de téléphone)
+      .resize(THUMB_SIZE, THUMB_SIZE, { fit: "cover" })
+      .webp({ quality: THUMB_QUALITY })
+      .toBuffer();
+
+    const mirror_path = `originals/${hash}.${extensionOf(meta.format)}`;
+    const thumb_path = `thumbs/${THUMB_SIZE}/${hash}.webp`;
+    await storage.put(mirror_path, body, contentType);
+    await storage.put(thumb_path, thumb, "image/webp");
+
+    await saveRow(supabase, {
+      source_url: url,
+      content_hash: hash,
+      content_type: contentType,
+      bytes: body.length,
+      width: meta.width ?? null,
+      height: meta.height ?? null,
+      mirror_path,
+      thumb_path,
+      ...validators,
+      fetched_at: now,
+      checked_at: now,
+      error_message: null,
+    });
+    return urlsOf(storage, { mirror_path, thumb_path });
+  } catch (e) {
+    // échéance du morceau : pas un échec de l'image, nouvel essai au prochain passage
+    if (e instanceof DeadlineError) return prev ? urlsOf(storage, prev) : NO_MIRROR;
+
+    await saveRow(supabase, { source_url: url, checked_at: now, error_message: e instanceof Error ? e.message : "Unknown error" });
+    return prev ? urlsOf(storage, prev) : NO_MIRROR;
+  }
+}
+
+/**
+ * ✅ image_mirror_url / image_thumb_url du listing (image_url reste l'url d'origine, pour référence)
+ * ⚠️ un produit n'échoue jamais à cause de son image : miroir indisponible => listing tel quel
+ */
+export async function withMirroredImage(
+  supabase: SB,
+  storage: ImageStorage | null | undefined,
+  l: Listing
+): Promise<Listing> {
+  if (!storage) return l;
+  if (!l.image_url || !/^https?:\/\//i.test(l.image_url)) return { ...l, ...NO_MIRROR };
+
+  try {
+    return { ...l, ...(await mirrorImage(supabase, storage, l.image_url)) };
+  } catch {
+    return l;
+  }
+}
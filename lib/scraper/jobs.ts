@@ -0,0 +1,174 @@
+import type { SB } from "../supabaseServer";
+
+/* ================= FILE DE JOBS (scrape_jobs) ================= */
+
+export type JobType = "full" | "source" | "url";
+
+export type ScrapeJob = {
+  id: string;
+  type: JobType;
+  source_id: string | null;
+  url: string | null;
+  priority: number;
+  status: "queued" | "running" | "done" | "failed";
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  run_id: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: string;
+};
+
+export type NewJob = {
+  type: JobType;
+  source_id?: string | null;
+  url?: string | null;
+  priority?: number;
+};
+
+// priorités usuelles : cron < admin ("rescraper maintenant")
+export const PRIORITY_CRON = 0;
+export const PRIORITY_MANUAL = 10;
+
+// retry : 1 min, 4 min, 16 min...
+const BACKOFF_BASE_MS = 60_000;
+
+function jobError(e: { message: string }) {
+  return new Error(`Scrape jobs failed: ${e.message}`);
+}
+
+/**
+ * ✅ ajoute un job, sauf si le même attend déjà (queued / running)
+ * => 2 crons ou 2 clics "rescraper" ne doublent pas le travail
+ */
+export async function enqueueJob(supabase: SB, job: NewJob): Promise<{ id: string; existing: boolean }> {
+  let q = supabase.from("scrape_jobs").select("id").eq("type", job.type).in("status", ["queued", "running"]);
+  q = job.source_id ? q.eq("source_id", job.source_id) : q.is("source_id", null);
+  q = job.url ? q.eq("url", job.url) : q.is("url", null);
+
+  const dup = await q.limit(1).maybeSingle();
+  if (dup.error) throw jobError(dup.error);
+  if (dup.data) return { id: dup.data.id, existing: true };
+
+  const { data, error } = await supabase
+    .from("scrape_jobs")
+    .insert({
+      type: job.type,
+      source_id: job.source_id ?? null,
+      url: job.url ?? null,
+      priority: job.priority ?? PRIORITY_CRON,
+    })
+    .select("id")
+    .single();
+  if (error) throw jobError(error);
+
+  return { id: data.id, existing: false };
+}
+
+/**
+ * ✅ "relancer seulement les sources en échec" d'un run (par défaut le dernier run terminé)
+ */
+export async function enqueueFailedSources(
+  supabase: SB,
+  run_id: string | null,
+  priority = PRIORITY_MANUAL
+): Promise<string[]> {
+  let runId = run_id;
+  if (!runId) {
+    const last = await supabase
+      .from("scrape_runs")
+      .select("id")
+      .neq("status", "running")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (last.error) throw jobError(last.error);
+    runId = last.data?.id ?? null;
+  }
+  if (!runId) return [];
+
+  const { data, error } = await supabase
+    .from("scrape_run_sources")
+    .select("source_id")
+    .eq("run_id", runId)
+    .not("error_message", "is", null);
+  if (error) throw jobError(error);
+
+  const ids = [...new Set((data ?? []).map((r: { source_id: string | null }) => r.source_id))].filter(
+    (id): id is string => !!id
+  );
+  for (const source_id of ids) await enqueueJob(supabase, { type: "source", source_id, priority });
+
+  return ids;
+}
+
+/* ================= WORKER : claim / bail / fin ================= */
+
+// ✅ atomique côté Postgres (voir migration claim_scrape_job) ; null = rien à faire (ou un autre worker tourne)
+export async function claimJob(supabase: SB, worker: string, leaseSeconds: number): Promise<ScrapeJob | null> {
+  const { data, error } = await supabase.rpc("claim_scrape_job", {
+    p_worker: worker,
+    p_lease_seconds: leaseSeconds,
+  });
+  if (error) throw jobError(error);
+
+  const rows = (data ?? []) as ScrapeJob[];
+  return rows[0] ?? null;
+}
+
+export async function attachRun(supabase: SB, job_id: string, run_id: string) {
+  const { error } = await supabase.from("scrape_jobs").update({ run_id }).eq("id", job_id);
+  if (error) throw jobError(error);
+}
+
+// job long (full / source) pas fini : rend la main, le morceau suivant le reprendra
+export async function releaseJob(supabase: SB, job: ScrapeJob) {
+  const { error } = await supabase
+    .from("scrape_jobs")
+    .update({ status: "queued", locked_by: null, locked_until: null })
+    .eq("id", job.id);
+  if (error) throw jobError(error);
+}
+
+export async function completeJob(supabase: SB, job: ScrapeJob, result: unknown) {
+  const { error } = await supabase
+    .from("scrape_jobs")
+    .update({
+      status: "done",
+      locked_by: null,
+      locked_until: null,
+      result,
+      last_error: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+  if (error) throw jobError(error);
+}
+
+/**
+ * ✅ échec : retry avec backoff exponentiel, "failed" après max_attempts
+ * true = abandonné
+ */
+export async function failJob(supabase: SB, job: ScrapeJob, message: string): Promise<boolean> {
+  const attempts = job.attempts + 1;
+  const giveUp = attempts >= job.max_attempts;
+
+  const { error } = await supabase
+    .from("scrape_jobs")
+    .update({
+      status: giveUp ? "failed" : "queued",
+      attempts,
+      last_error: message,
+      locked_by: null,
+      locked_until: null,
+      run_after: new Date(Date.now() + BACKOFF_BASE_MS * 4 ** (attempts - 1)).toISOString(),
+      finished_at: giveUp ? new Date().toISOString() : null,
+    })
+    .eq("id", job.id);
+  if (error) throw jobError(error);
+
+  return giveUp;
+}
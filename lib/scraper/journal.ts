@@ -0,0 +1,119 @@
+import type { SB } from "../supabaseServer";
+import type { SourceResult, SourceRow, SourceStats } from "./types";
+
+/* ================= JOURNAL (scrape_runs / scrape_run_sources) ================= */
+
+export async function startRunJournal(supabase: SB, started_at: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("scrape_runs")
+    .insert({ started_at, status: "running" })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+
+  return data.id;
+}
+
+export async function journalSource(
+  supabase: SB,
+  run_id: string,
+  src: SourceRow,
+  started_at: string,
+  stats: SourceStats,
+  r: SourceResult
+) {
+  const { error } = await supabase.from("scrape_run_sources").insert({
+    run_id,
+    source_id: src.id,
+    source_url: src.url,
+    started_at,
+    finished_at: new Date().toISOString(),
+    ...stats,
+    retired: r.retired ?? 0,
+    complete: r.complete === true,
+    error_message: r.error ?? null,
+  });
+  if (error) throw new Error(`Source journal failed: ${error.message}`);
+}
+
+export async function finishRunJournal(
+  supabase: SB,
+  run_id: string,
+  status: "ok" | "partial" | "failed",
+  totals: { sources: number; upserted: number; errors: number },
+  errorMessage: string | null
+) {
+  const { error } = await supabase
+    .from("scrape_runs")
+    .update({
+      finished_at: new Date().toISOString(),
+      status,
+      sources_count: totals.sources,
+      upserted: totals.upserted,
+      source_errors: totals.errors,
+      error_message: errorMessage,
+    })
+    .eq("id", run_id);
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+}
+
+/**
+ * ✅ début du dernier passage COMPLET de cette source
+ * (un produit dont le lastmod du sitemap est plus ancien n'a pas changé depuis)
+ */
+export async function lastCompletePassAt(supabase: SB, source_id: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("scrape_run_sources")
+    .select("started_at")
+    .eq("source_id", source_id)
+    .eq("complete", true)
+    .is("error_message", null)
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+
+  return data?.started_at ?? null;
+}
+
+/* ================= RUNS DÉCOUPÉS (voir workItems.ts) ================= */
+
+export async function getRun(
+  supabase: SB,
+  run_id: string
+): Promise<{ id: string; started_at: string; status: string } | null> {
+  const { data, error } = await supabase
+    .from("scrape_runs")
+    .select("id, started_at, status")
+    .eq("id", run_id)
+    .maybeSingle();
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+
+  return data ?? null;
+}
+
+// sources déjà clôturées dans ce run (1 ligne scrape_run_sources chacune)
+export async function journaledSourceIds(supabase: SB, run_id: string): Promise<Set<string>> {
+  const { data, error } = await supabase.from("scrape_run_sources").select("source_id").eq("run_id", run_id);
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+
+  return new Set((data ?? []).map((r: { source_id: string | null }) => r.source_id).filter((id): id is string => !!id));
+}
+
+export async function runTotals(
+  supabase: SB,
+  run_id: string
+): Promise<{ sources: number; upserted: number; errors: number }> {
+  const { data, error } = await supabase
+    .from("scrape_run_sources")
+    .select("upserted, error_message")
+    .eq("run_id", run_id);
+  if (error) throw new Error(`Run journal failed: ${error.message}`);
+
+  const rows = (data ?? []) as Array<{ upserted: number; error_message: string | null }>;
+  return {
+    sources: rows.length,
+    upserted: rows.reduce((n, r) => n + (r.upserted ?? 0), 0),
+    errors: rows.filter((r) => r.error_message).length,
+  };
+}
@@ -0,0 +1,70 @@
+import type { SB } from "../supabaseServer";
+import type { VariantDef } from "../variants";
+import { classifyCoralType, withCoralType } from "./coralType";
+import type { Listing } from "./types";
+import { parseUnits } from "./units";
+
+/* ================= OVERRIDES MANUELS (listing_overrides) ================= */
+
+/**
+ * Correction admin épinglée sur (shop_id, url) : survit aux scrapes.
+ * null = champ pas surchargé (on garde la valeur du shop)
+ */
+export type ListingOverride = {
+  shop_id: string;
+  url: string;
+  title_raw: string | null;
+  variant: string | null;
+  coral_type: string | null;
+  unit_count: number | null;
+  image_url: string | null;
+  hidden: boolean;
+};
+
+export type OverrideMap = Map<string, ListingOverride>;
+
+// champs qu'un override peut épingler (hidden à part)
+export const OVERRIDE_FIELDS = ["title_raw", "variant", "coral_type", "unit_count", "image_url"] as const;
+export type OverrideField = (typeof OVERRIDE_FIELDS)[number];
+
+export const overrideKey = (shop_id: string, url: string) => `${shop_id}|${url}`;
+
+export async function loadOverrides(supabase: SB): Promise<OverrideMap> {
+  const { data, error } = await supabase
+    .from("listing_overrides")
+    .select("shop_id, url, title_raw, variant, coral_type, unit_count, image_url, hidden");
+  if (error) throw new Error(`Overrides load failed: ${error.message}`);
+
+  const m: OverrideMap = new Map();
+  for (const o of (data ?? []) as ListingOverride[]) m.set(overrideKey(o.shop_id, o.url), o);
+  return m;
+}
+
+/**
+ * ✅ listing parsé => coral_type (classifieur) + overrides admin
+ * - titre / variant surchargés AVANT le classifieur (et re-parse des unités)
+ * - coral_type / unit_count / image surchargés APRÈS
+ * - hidden => null (pas d'upsert ; l'ancien listing part au retrait de fin de passage)
+ */
+export function withOverride(l: Listing | null, overrides: OverrideMap, variants: VariantDef[]): Listing | null {
+  const o = l?.url ? overrides.get(overrideKey(l.shop_id, l.url)) : undefined;
+  if (!l || !o) return withCoralType(l, variants);
+  if (o.hidden) return null;
+
+  let base = l;
+  if (o.title_raw != null || o.variant != null) {
+    base = { ...l, title_raw: o.title_raw ?? l.title_raw, variant: o.variant ?? l.variant };
+    const units = parseUnits(base.title_raw);
+    if (units) base = { ...base, ...units };
+  }
+
+  const typed = { ...base, ...classifyCoralType(base.title_raw, base.variant, base.category, variants) };
+
+  return {
+    ...typed,
+    coral_type: o.coral_type ?? typed.coral_type,
+    coral_type_confidence: o.coral_type != null ? 1 : typed.coral_type_confidence,
+    unit_count: o.unit_count ?? typed.unit_count,
+    image_url: o.image_url ?? typed.image_url,
+  };
+}
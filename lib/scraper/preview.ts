@@ -0,0 +1,45 @@
+import type { SB } from "../supabaseServer";
+import { withDeadline } from "./http";
+import { dryRunSource, emptyStats, loadScrapeContext } from "./run";
+import type { DryRunReport, Listing, SourceRow, SourceStats } from "./types";
+
+/* ================= TEST D'UNE SOURCE (dry-run, admin) ================= */
+
+// < maxDuration de app/api/admin/sources/[id]/test (60s) : marge pour la réponse
+const PREVIEW_BUDGET_MS = 45_000;
+
+export type SourcePreview = {
+  strategy: string | null;
+  products_found: number;
+  complete: boolean; // discovery complète (le limit ne compte pas)
+  listings: Listing[]; // les N premiers listings valides, PAS écrits
+  rejected: DryRunReport["rejected"];
+  timing: DryRunReport["timing"] | null;
+  stats: SourceStats;
+};
+
+/**
+ * ✅ "tester cette source" : dryRunSource sur les premiers produits
+ * (même chaîne que le scrape : adapter, coral_type, overrides) mais AUCUNE écriture
+ */
+export async function previewSource(supabase: SB, src: SourceRow, limit = 5): Promise<SourcePreview> {
+  const stats = emptyStats();
+  const ctx = await loadScrapeContext(supabase);
+
+  // ⚠️ borné : un shop qui rejette tout ne doit pas faire parser tout le catalogue
+  // ✅ borné en temps aussi : sous le maxDuration de la route (shop lent, 429 en boucle)
+  const r = await withDeadline(Date.now() + PREVIEW_BUDGET_MS, () =>
+    dryRunSource(src, stats, { ...ctx, limit: limit * 4 })
+  );
+  if (r.error) throw new Error(r.error);
+
+  return {
+    strategy: stats.strategy,
+    products_found: r.dry_run?.discovered ?? 0,
+    complete: r.dry_run?.discovery_complete ?? false,
+    listings: (r.dry_run?.listings ?? []).slice(0, limit),
+    rejected: r.dry_run?.rejected ?? [],
+    timing: r.dry_run?.timing ?? null,
+    stats,
+  };
+}
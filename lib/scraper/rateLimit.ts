@@ -0,0 +1,134 @@
+import { sleep } from "./utils";
+
+/* ================= TOKEN BUCKET PAR HOST ================= */
+
+// ⚠️ IMPORTANT: NE PAS throw au top-level (sinon Vercel build fail)
+const HOST_INTERVAL_MS = Number(process.env.SCRAPE_HOST_INTERVAL_MS) || 750;
+
+// plafond quand un shop nous 429 en boucle
+const MAX_INTERVAL_MS = 20000;
+
+/**
+ * Token bucket (capacité 1 par défaut = pas de rafale).
+ * - 1 jeton toutes les `intervalMs`
+ * - une requête "lourde" (cost > 1) met le bucket en dette => la suivante attend plus
+ * - `slowDown` (429 / Retry-After) : bloque le host + double l'intervalle
+ * - `recover` (réponse OK) : revient doucement vers l'intervalle de base
+ */
+export class HostLimiter {
+  private tokens: number;
+  private last = Date.now();
+  private blockedUntil = 0;
+  private intervalMs: number;
+
+  constructor(
+    private readonly baseIntervalMs = HOST_INTERVAL_MS,
+    private readonly capacity = 1
+  ) {
+    this.intervalMs = baseIntervalMs;
+    this.tokens = capacity;
+  }
+
+  get currentIntervalMs() {
+    return this.intervalMs;
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.last) / this.intervalMs);
+    this.last = now;
+  }
+
+  // `deadline` (Date.now()) : false = pas de jeton avant l'échéance (rien n'est consommé, pas d'attente inutile)
+  async take(cost = 1, deadline = Infinity): Promise<boolean> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        if (this.blockedUntil >= deadline) return false;
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= cost;
+        return true;
+      }
+
+      const wait = Math.ceil((1 - this.tokens) * this.intervalMs);
+      if (now + wait >= deadline) return false;
+      await sleep(wait);
+    }
+  }
+
+  slowDown(waitMs: number) {
+    const now = Date.now();
+    this.intervalMs = Math.min(MAX_INTERVAL_MS, this.intervalMs * 2);
+    this.blockedUntil = Math.max(this.blockedUntil, now + waitMs);
+    this.tokens = Math.min(this.tokens, 0);
+    this.last = now;
+  }
+
+  recover() {
+    if (this.intervalMs <= this.baseIntervalMs) return;
+    this.intervalMs = Math.max(this.baseIntervalMs, this.intervalMs * 0.9);
+  }
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+// "https://www.shop.com/x" => "shop.com"
+export function hostKey(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// ✅ 1 limiter par host, partagé par toutes les sources / requêtes du run
+export function limiterFor(url: string): HostLimiter {
+  const k = hostKey(url);
+  let l = limiters.get(k);
+  if (!l) {
+    l = new HostLimiter();
+    limiters.set(k, l);
+  }
+  return l;
+}
+
+/* ================= SCHEDULER ================= */
+
+/**
+ * Regroupe par host et traite `concurrency` hosts en parallèle.
+ * Les items d'un même host restent séquentiels (même charge par shop qu'avant).
+ */
+export async function runByHost<T, R>(
+  items: T[],
+  urlOf: (item: T) => string,
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const groups = new Map<string, T[]>();
+  for (const it of items) {
+    const k = hostKey(urlOf(it));
+    const g = groups.get(k);
+    if (g) g.push(it);
+    else groups.set(k, [it]);
+  }
+
+  const queue = [...groups.values()];
+  const out: R[] = [];
+
+  const lane = async () => {
+    for (;;) {
+      const group = queue.shift();
+      if (!group) return;
+      for (const it of group) out.push(await worker(it));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, lane));
+
+  return out;
+}
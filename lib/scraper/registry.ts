@@ -0,0 +1,49 @@
+import { shopifyCatalogAdapter } from "./adapters/shopifyCatalog";
+import { shopifyHtmlAdapter } from "./adapters/shopifyHtml";
+import { shopifyProductJsAdapter } from "./adapters/shopifyProductJs";
+import { woocommerceHtmlAdapter } from "./adapters/woocommerceHtml";
+import { woocommerceStoreApiAdapter } from "./adapters/woocommerceStoreApi";
+import type { ShopAdapter, SourceRow } from "./types";
+
+/* ================= REGISTRY ================= */
+
+/**
+ * ⚠️ L'ORDRE compte :
+ * - auto-détection source : 1er adapter dont `detect` répond true
+ * - crawl auto : 1er adapter qui `claims` l'url produit
+ */
+export const ADAPTERS: ShopAdapter[] = [
+  shopifyCatalogAdapter,
+  woocommerceStoreApiAdapter,
+  shopifyProductJsAdapter,
+  shopifyHtmlAdapter,
+  woocommerceHtmlAdapter,
+];
+
+export function getAdapter(id: string): ShopAdapter | null {
+  return ADAPTERS.find((a) => a.id === id) ?? null;
+}
+
+/**
+ * Adapter pour une source :
+ * - `scrape_sources.adapter` renseigné => adapter épinglé
+ * - sinon auto-détection ; null = crawl auto (adapter choisi PAR PRODUIT, voir adapterForProductUrl)
+ */
+export async function resolveAdapter(src: SourceRow): Promise<ShopAdapter | null> {
+  const pinned = (src.adapter || "").trim();
+  if (pinned) {
+    const a = getAdapter(pinned);
+    if (!a) throw new Error(`Unknown adapter "${pinned}"`);
+    return a;
+  }
+
+  for (const a of ADAPTERS) {
+    if (await a.detect(src)) return a;
+  }
+
+  return null;
+}
+
+export function adapterForProductUrl(url: string): ShopAdapter {
+  return ADAPTERS.find((a) => a.claims(url)) ?? woocommerceHtmlAdapter;
+}
@@ -0,0 +1,742 @@
+import { getSupabaseAdmin } from "../supabaseServer";
+import type { SB } from "../supabaseServer";
+import { fetchVariants } from "../variants";
+import type { VariantDef } from "../variants";
+import { discoverProductPages } from "./crawl";
+import { DeadlineError, withDeadline } from "./http";
+import { withMirroredImage } from "./images";
+import { imageStorageFromEnv } from "./imageStorage";
+import type { ImageStorage } from "./imageStorage";
+import {
+  finishRunJournal,
+  getRun,
+  journalSource,
+  journaledSourceIds,
+  lastCompletePassAt,
+  runTotals,
+  startRunJournal,
+} from "./journal";
+import { loadOverrides, withOverride } from "./overrides";
+import type { OverrideMap } from "./overrides";
+import { hostKey, runByHost } from "./rateLimit";
+import {
+  PRIORITY_CRON,
+  PRIORITY_MANUAL,
+  attachRun,
+  claimJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  releaseJob,
+} from "./jobs";
+import type { JobType, ScrapeJob } from "./jobs";
+import { adapterForProductUrl, getAdapter, resolveAdapter } from "./registry";
+import { keepSeen, rejectionReason, retireUnseen, upsertIfValid } from "./store";
+import type {
+  DryRunReport,
+  Listing,
+  ProductRef,
+  ScrapeEvent,
+  SeenMark,
+  SourceResult,
+  SourceRow,
+  SourceStats,
+} from "./types";
+import {
+  countItems,
+  deleteRunItems,
+  discoverItems,
+  enqueueDiscovery,
+  enqueueProducts,
+  finishItem,
+  itemUrls,
+  nextPendingItems,
+  saveItemProgress,
+} from "./workItems";
+import type { DiscoverProgress, DiscoverResult, WorkItem, WorkItemStatus } from "./workItems";
+
+// ⚠️ IMPORTANT: NE PAS throw au top-level (sinon Vercel build fail)
+// nb de shops (hosts) scrapés en parallèle ; le rythme PAR host est géré par rateLimit.ts
+const HOST_CONCURRENCY = Number(process.env.SCRAPE_HOST_CONCURRENCY) || 4;
+// temps de travail par invocation (sous la limite de durée de la fonction serverless)
+const CHUNK_BUDGET_MS = Number(process.env.SCRAPE_CHUNK_BUDGET_MS) || 45_000;
+// items lus par tour de boucle
+const CHUNK_BATCH = 40;
+// marge du bail d'un job au-delà du budget (fin du dernier item, clôture des sources)
+const LEASE_MARGIN_S = 120;
+// discovery non paginée (sitemap) coupée par l'échéance N fois de suite => abandon (jamais finie en 1 morceau)
+const MAX_DISCOVER_INTERRUPTS = 3;
+
+export function emptyStats(): SourceStats {
+  return {
+    strategy: null,
+    pages_visited: 0,
+    products_seen: 0,
+    upserted: 0,
+    rejected: 0,
+    unchanged: 0,
+    errors: 0,
+  };
+}
+
+/* ================= CONTEXTE D'UN RUN ================= */
+
+/**
+ * Chargé 1 fois par run :
+ * - variants : taxonomie (coral_variants) pour le classifieur
+ * - overrides : corrections admin (listing_overrides)
+ * - limit : nb max de produits parsés par source (dry-run seulement, voir dryRunSource)
+ * - onEvent : progression en direct (types.ts ScrapeEvent)
+ * - images : stockage du miroir d'images (null = IMAGE_STORAGE=off)
+ */
+export type ScrapeContext = {
+  variants: VariantDef[];
+  overrides: OverrideMap;
+  images?: ImageStorage | null;
+  limit?: number | null;
+  onEvent?: (e: ScrapeEvent) => void;
+};
+
+// ⚠️ un client parti (stream coupé) ne doit pas faire planter le run
+function emit(ctx: ScrapeContext, e: ScrapeEvent) {
+  try {
+    ctx.onEvent?.(e);
+  } catch {}
+}
+
+export async function loadScrapeContext(supabase: SB): Promise<ScrapeContext> {
+  // ✅ taxonomie indisponible => on classe quand même avec les mots "forts" (torch, zoa...)
+  let variants: VariantDef[] = [];
+  try {
+    variants = await fetchVariants(supabase);
+  } catch {}
+
+  // ⚠️ PAS de catch : scraper sans les overrides = écraser les corrections admin
+  const overrides = await loadOverrides(supabase);
+
+  return { variants, overrides, images: imageStorageFromEnv(supabase) };
+}
+
+// ✅ miroir de l'image SEULEMENT pour un listing qui sera enregistré (pas de téléchargement pour un rejet)
+async function mirrored(supabase: SB, l: Listing | null, ctx: ScrapeContext): Promise<Listing | null> {
+  if (!l || rejectionReason(l)) return l;
+  return withMirroredImage(supabase, ctx.images, l);
+}
+
+/* ================= DRY-RUN 1 SOURCE ================= */
+
+/**
+ * ✅ dry-run d'une source (runScrape dryRun, "tester cette source") : discovery + parse, RIEN n'est écrit
+ * (le vrai scrape passe par les work items, voir processDiscover / processProduct)
+ */
+export async function dryRunSource(src: SourceRow, stats: SourceStats, ctx: ScrapeContext): Promise<SourceResult> {
+  const t0 = Date.now();
+  const dry: DryRunReport = {
+    discovered: 0,
+    discovery_complete: false,
+    listings: [],
+    rejected: [],
+    timing: { discovery_ms: 0, parse_ms: 0, total_ms: 0 },
+  };
+  const report = () => ({ ...dry, timing: { ...dry.timing, total_ms: Date.now() - t0 } });
+
+  try {
+    // ✅ skip si shop_id vide (sinon uuid error)
+    if (!src.shop_id || String(src.shop_id).trim() === "") {
+      return { source: src.url, found: 0, error: "Missing shop_id" };
+    }
+
+    emit(ctx, { type: "source_started", source_id: src.id, source: src.url });
+
+    // adapter épinglé / auto-détecté, sinon crawl des pages catégorie (Woo, Shopify sans /products.json)
+    const adapter = await resolveAdapter(src);
+    stats.strategy = adapter ? adapter.id : "crawl";
+
+    // ✅ discovery arrêtée dès `limit` produits (pas tout le catalogue pour en parser quelques-uns)
+    const discovered = adapter
+      ? await adapter.discover(src, stats, null, ctx.limit)
+      : await discoverProductPages(src, stats, null, ctx.limit);
+    emit(ctx, {
+      type: "discovered",
+      source_id: src.id,
+      strategy: stats.strategy,
+      pages: stats.pages_visited,
+      products: discovered.products.length,
+      complete: discovered.complete,
+    });
+    const products = ctx.limit ? discovered.products.slice(0, ctx.limit) : discovered.products;
+    dry.discovered = discovered.products.length;
+    dry.discovery_complete = discovered.complete;
+    dry.timing.discovery_ms = Date.now() - t0;
+
+    let found = 0;
+
+    for (const ref of products) {
+      stats.products_seen++;
+
+      const a = adapter ?? adapterForProductUrl(ref.url);
+      const tParse = Date.now();
+
+      try {
+        // coral_type + corrections admin (listing_overrides) ; masqué => rejeté
+        const l = withOverride(await a.parse(ref, src), ctx.overrides, ctx.variants);
+        dry.timing.parse_ms += Date.now() - tParse;
+
+        const reason = rejectionReason(l);
+        if (reason || !l) {
+          stats.rejected++;
+          dry.rejected.push({ url: ref.url, reason: reason ?? "not parsed" });
+          emit(ctx, { type: "product", source_id: src.id, url: ref.url, status: "rejected", reason: reason ?? "not parsed" });
+        } else {
+          found++;
+          dry.listings.push(l);
+          emit(ctx, { type: "product", source_id: src.id, url: ref.url, status: "parsed" });
+        }
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : "Unknown error";
+        stats.errors++;
+        dry.timing.parse_ms += Date.now() - tParse;
+        dry.rejected.push({ url: ref.url, reason });
+        emit(ctx, { type: "product", source_id: src.id, url: ref.url, status: "failed", reason });
+        // échéance (withDeadline de l'appelant) : les produits suivants échoueraient tous pareil
+        if (e instanceof DeadlineError) break;
+      }
+    }
+
+    const pages = stats.pages_visited;
+    const r: SourceResult = {
+      source: `${src.url} (${stats.strategy}${pages > 1 ? `, pages:${pages}` : ""})`,
+      found,
+      // limit => passage partiel
+      complete: discovered.complete && products.length === discovered.products.length,
+      dry_run: report(),
+    };
+    emit(ctx, { type: "source_done", source_id: src.id, result: r });
+    return r;
+  } catch (e) {
+    const r: SourceResult = { source: src.url, found: 0, error: e instanceof Error ? e.message : "Unknown error", dry_run: report() };
+    emit(ctx, { type: "source_done", source_id: src.id, result: r });
+    return r;
+  }
+}
+
+/* ================= RUN COMPLET ================= */
+
+/**
+ * Filtres du run (debug d'un shop) :
+ * - sourceId : 1 source (même désactivée)
+ * - host : les sources actives de ce host ("shop.com", "www.shop.com" ou une url)
+ * - dryRun / limit : voir ScrapeContext et dryRunSource
+ * - url : 1 page produit (source = sourceId, sinon déduite du host)
+ * - resumeOnly : avancer les jobs en attente, sans en ajouter
+ */
+export type ScrapeOptions = {
+  sourceId?: string | null;
+  host?: string | null;
+  url?: string | null;
+  dryRun?: boolean;
+  limit?: number | null;
+  resumeOnly?: boolean;
+};
+
+async function selectSources(supabase: SB, opts: ScrapeOptions): Promise<SourceRow[]> {
+  let q = supabase.from("scrape_sources").select("*");
+  q = opts.sourceId ? q.eq("id", opts.sourceId) : q.eq("is_active", true);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+
+  let sources = (data ?? []) as SourceRow[];
+  if (opts.host) {
+    const h = hostKey(/^https?:\/\//i.test(opts.host) ? opts.host : `https://${opts.host}`);
+    sources = sources.filter((s) => hostKey(s.url) === h);
+  }
+
+  if ((opts.sourceId || opts.host) && !sources.length) {
+    throw new Error(`No source matches ${opts.sourceId ? `id "${opts.sourceId}"` : `host "${opts.host}"`}`);
+  }
+  return sources;
+}
+
+/* ================= RUN DÉCOUPÉ (work items) ================= */
+
+/**
+ * ✅ 1 item = 1 étape courte : "discover" (1 par source) puis "product" (1 par url produit).
+ * Chaque invocation traite des items pendant CHUNK_BUDGET_MS puis rend la main ;
+ * le job (scrape_jobs) du run est repris au passage suivant du worker.
+ */
+type RunState = {
+  runId: string;
+  seenAt: string; // = started_at du run (last_seen_at de tous ses listings, même sur plusieurs invocations)
+  sources: Map<string, SourceRow>;
+  ctx: ScrapeContext;
+};
+
+function discoveredEvent(d: DiscoverResult) {
+  return { strategy: d.strategy, pages: d.pages_visited, products: d.products, complete: d.complete };
+}
+
+// ✅ false = coupé par l'échéance du morceau : l'item reste pending (repris au morceau suivant)
+async function processDiscover(supabase: SB, run: RunState, item: WorkItem, src: SourceRow): Promise<boolean> {
+  const stats = emptyStats();
+  const prev = (item.data ?? null) as DiscoverProgress | null;
+  stats.pages_visited = prev?.pages_visited ?? 0;
+  if (!prev) emit(run.ctx, { type: "source_started", source_id: src.id, source: src.url });
+
+  try {
+    const adapter = await resolveAdapter(src);
+    stats.strategy = adapter ? adapter.id : "crawl";
+
+    const { products, complete, resume } = adapter
+      ? await adapter.discover(src, stats, prev?.cursor ?? null)
+      : await discoverProductPages(src, stats, prev?.cursor ?? null);
+
+    // ✅ sitemap : produit pas modifié depuis le dernier passage complet => pas de re-scrape
+    const since = products.some((p) => p.lastmod) ? await lastCompletePassAt(supabase, src.id) : null;
+
+    await enqueueProducts(supabase, run.runId, src.id, adapter?.id ?? null, products, (p) =>
+      Boolean(since && p.lastmod && p.lastmod < since)
+    );
+    const total = (prev?.products ?? 0) + products.length;
+
+    // pagination coupée : pages déjà lues en file, la suite au morceau suivant
+    if (resume) {
+      const progress: DiscoverProgress = { cursor: resume, pages_visited: stats.pages_visited, products: total, interrupted: 0 };
+      await saveItemProgress(supabase, item.id, progress);
+      return false;
+    }
+
+    const result: DiscoverResult = {
+      strategy: stats.strategy,
+      pages_visited: stats.pages_visited,
+      products: total,
+      complete,
+    };
+    await finishItem(supabase, item.id, "done", { data: result });
+    emit(run.ctx, { type: "discovered", source_id: src.id, ...discoveredEvent(result) });
+  } catch (e) {
+    const interrupted = (prev?.interrupted ?? 0) + 1;
+    if (e instanceof DeadlineError && interrupted < MAX_DISCOVER_INTERRUPTS) {
+      const progress: DiscoverProgress = {
+        cursor: prev?.cursor ?? null,
+        pages_visited: prev?.pages_visited ?? 0,
+        products: prev?.products ?? 0,
+        interrupted,
+      };
+      await saveItemProgress(supabase, item.id, progress);
+      return false;
+    }
+
+    const result: DiscoverResult = {
+      strategy: stats.strategy,
+      pages_visited: stats.pages_visited,
+      products: prev?.products ?? 0,
+      complete: false,
+    };
+    const error =
+      e instanceof DeadlineError ? "Discovery exceeded the chunk budget" : e instanceof Error ? e.message : "Unknown error";
+    await finishItem(supabase, item.id, "failed", { data: result, error_message: error });
+    emit(run.ctx, { type: "discovered", source_id: src.id, ...discoveredEvent(result), error });
+  }
+
+  return true;
+}
+
+async function processProduct(supabase: SB, run: RunState, item: WorkItem, src: SourceRow): Promise<boolean> {
+  const seen: SeenMark = { source_id: src.id, last_seen_at: run.seenAt };
+
+  try {
+    const a = (item.adapter && getAdapter(item.adapter)) || adapterForProductUrl(item.url);
+    const ref: ProductRef = { url: item.url, data: item.data ?? undefined, lastmod: item.lastmod };
+
+    // coral_type + corrections admin (listing_overrides) ; masqué => rejeté
+    const l = withOverride(await a.parse(ref, src), run.ctx.overrides, run.ctx.variants);
+    const ok = await upsertIfValid(supabase, await mirrored(supabase, l, run.ctx), seen);
+    const reason = ok ? null : rejectionReason(l);
+
+    // data (payload du shop) ne sert plus une fois parsé
+    await finishItem(supabase, item.id, ok ? "done" : "rejected", { data: null, error_message: reason });
+    emit(run.ctx, { type: "product", source_id: src.id, url: item.url, status: ok ? "upserted" : "rejected", reason });
+  } catch (e) {
+    // échéance du morceau => l'item reste pending (repris au morceau suivant)
+    if (e instanceof DeadlineError) return false;
+
+    // ignore product (mais on garde son listing existant, voir keepSeen à la clôture)
+    const reason = e instanceof Error ? e.message : "Unknown error";
+    await finishItem(supabase, item.id, "failed", { data: null, error_message: reason });
+    emit(run.ctx, { type: "product", source_id: src.id, url: item.url, status: "failed", reason });
+  }
+
+  return true;
+}
+
+/**
+ * ✅ source dont tous les items sont traités => journal + keepSeen + retrait des invendus
+ * (retrait SEULEMENT si discovery complète et sans erreur, comme avant)
+ */
+async function closeFinishedSources(supabase: SB, run: RunState): Promise<SourceResult[]> {
+  const closed = await journaledSourceIds(supabase, run.runId);
+  const out: SourceResult[] = [];
+
+  for (const d of await discoverItems(supabase, run.runId)) {
+    if (d.status === "pending" || closed.has(d.source_id)) continue;
+    if (await countItems(supabase, run.runId, { source_id: d.source_id, kind: "product", status: "pending" })) continue;
+
+    const src = run.sources.get(d.source_id);
+    if (!src) continue;
+
+    const disc = (d.data ?? {}) as Partial<DiscoverResult>;
+    const count = (status: WorkItemStatus) =>
+      countItems(supabase, run.runId, { source_id: src.id, kind: "product", status });
+
+    const stats: SourceStats = {
+      ...emptyStats(),
+      strategy: disc.strategy ?? null,
+      pages_visited: disc.pages_visited ?? 0,
+      upserted: await count("done"),
+      rejected: await count("rejected"),
+      unchanged: await count("unchanged"),
+      errors: await count("failed"),
+    };
+    stats.products_seen = stats.upserted + stats.rejected + stats.unchanged + stats.errors;
+
+    const r: SourceResult = {
+      source: `${src.url} (${stats.strategy ?? "?"}${stats.pages_visited > 1 ? `, pages:${stats.pages_visited}` : ""})`,
+      found: stats.upserted,
+      complete: d.status === "done" && disc.complete === true,
+    };
+    if (d.status === "failed") r.error = d.error_message ?? "Discovery failed";
+
+    const seen: SeenMark = { source_id: src.id, last_seen_at: run.seenAt };
+    try {
+      // produits en erreur ou inchangés : on garde leur listing existant
+      await keepSeen(supabase, src.shop_id, await itemUrls(supabase, run.runId, src.id, ["failed", "unchanged"]), seen);
+
+      // ✅ source en erreur (429, shop down...) => on garde ses listings tels quels
+      if (!r.error && r.complete) r.retired = await retireUnseen(supabase, src, seen);
+    } catch (e) {
+      r.error = e instanceof Error ? e.message : "Retire failed";
+    }
+
+    await journalSource(supabase, run.runId, src, run.seenAt, stats, r);
+    emit(run.ctx, { type: "source_done", source_id: src.id, result: r });
+    out.push(r);
+  }
+
+  return out;
+}
+
+type RunRef = { id: string; started_at: string };
+
+async function startRun(supabase: SB, sources: SourceRow[]): Promise<RunRef> {
+  // ✅ plus de reset complet : upsert en place + last_seen_at, le site reste plein pendant le run
+  const started_at = new Date().toISOString();
+
+  const id = await startRunJournal(supabase, started_at);
+  await enqueueDiscovery(supabase, id, sources);
+
+  return { id, started_at };
+}
+
+/**
+ * ✅ traite les items pending du run jusqu'à `deadline`
+ * done = plus aucun item pending => run clôturé (journal) et items supprimés
+ */
+async function runChunk(supabase: SB, ref: RunRef, ctx: ScrapeContext, deadline: number) {
+  const discovers = await discoverItems(supabase, ref.id);
+  const { data, error } = await supabase
+    .from("scrape_sources")
+    .select("*")
+    .in("id", [...new Set(discovers.map((d) => d.source_id))]);
+  if (error) throw new Error(error.message);
+
+  const run: RunState = {
+    runId: ref.id,
+    seenAt: ref.started_at,
+    sources: new Map(((data ?? []) as SourceRow[]).map((s) => [s.id, s])),
+    ctx,
+  };
+
+  const debug: SourceResult[] = [];
+  let processed = 0;
+  // 1 item remis en file par l'échéance => budget épuisé (sinon on relirait les mêmes items en boucle)
+  let outOfBudget = false;
+
+  while (Date.now() < deadline && !outOfBudget) {
+    const items = await nextPendingItems(supabase, run.runId, CHUNK_BATCH);
+    if (!items.length) break;
+
+    // ✅ hosts différents en parallèle, items d'un même host l'un après l'autre
+    // ✅ requêtes bornées par l'échéance (retries, attentes du limiter) : un item ne dépasse pas le budget
+    await withDeadline(deadline, () =>
+      runByHost(items, (it) => it.url, HOST_CONCURRENCY, async (it) => {
+        // budget dépassé => l'item reste pending pour l'invocation suivante
+        if (Date.now() >= deadline) return;
+
+        const src = run.sources.get(it.source_id);
+        let treated = true;
+        if (!src) {
+          await finishItem(supabase, it.id, "failed", { error_message: "Source not found" });
+        } else if (it.kind === "discover") {
+          treated = await processDiscover(supabase, run, it, src);
+        } else {
+          treated = await processProduct(supabase, run, it, src);
+        }
+        if (treated) processed++;
+        else outOfBudget = true;
+      })
+    );
+
+    debug.push(...(await closeFinishedSources(supabase, run)));
+  }
+
+  debug.push(...(await closeFinishedSources(supabase, run)));
+
+  const remaining = await countItems(supabase, run.runId, { status: "pending" });
+  const totals = await runTotals(supabase, run.runId);
+
+  // ✅ run terminé SEULEMENT quand tous les items sont traités
+  if (remaining === 0) {
+    await finishRunJournal(supabase, run.runId, totals.errors ? "partial" : "ok", totals, null);
+    await deleteRunItems(supabase, run.runId);
+  }
+
+  return { done: remaining === 0, processed, remaining, upserted: totals.upserted, debug };
+}
+
+/* ================= 1 URL PRODUIT ================= */
+
+// source d'une url : celle du job, sinon 1re source active du même host
+async function sourceForUrl(supabase: SB, url: string, source_id: string | null): Promise<SourceRow> {
+  const [src] = source_id
+    ? await selectSources(supabase, { sourceId: source_id })
+    : await selectSources(supabase, { host: url });
+  return src;
+}
+
+export async function scrapeUrl(supabase: SB, src: SourceRow, url: string, ctx: ScrapeContext) {
+  const seen: SeenMark = { source_id: src.id, last_seen_at: new Date().toISOString() };
+
+  const a = (src.adapter && getAdapter(src.adapter)) || adapterForProductUrl(url);
+  const l = withOverride(await a.parse({ url }, src), ctx.overrides, ctx.variants);
+
+  const upserted = await upsertIfValid(supabase, await mirrored(supabase, l, ctx), seen);
+  const rejected = upserted ? null : rejectionReason(l);
+  emit(ctx, { type: "product", source_id: src.id, url, status: upserted ? "upserted" : "rejected", reason: rejected });
+
+  return { url, adapter: a.id, upserted, rejected };
+}
+
+// dry-run d'1 url : même parse que scrapeUrl, rien n'est écrit (ni listing, ni miroir d'image)
+async function dryRunUrl(src: SourceRow, url: string, ctx: ScrapeContext): Promise<SourceResult> {
+  const t0 = Date.now();
+  const dry: DryRunReport = {
+    discovered: 1,
+    discovery_complete: false,
+    listings: [],
+    rejected: [],
+    timing: { discovery_ms: 0, parse_ms: 0, total_ms: 0 },
+  };
+  emit(ctx, { type: "source_started", source_id: src.id, source: src.url });
+
+  const a = (src.adapter && getAdapter(src.adapter)) || adapterForProductUrl(url);
+  try {
+    const l = withOverride(await a.parse({ url }, src), ctx.overrides, ctx.variants);
+    const reason = rejectionReason(l);
+    if (reason || !l) {
+      dry.rejected.push({ url, reason: reason ?? "not parsed" });
+      emit(ctx, { type: "product", source_id: src.id, url, status: "rejected", reason: reason ?? "not parsed" });
+    } else {
+      dry.listings.push(l);
+      emit(ctx, { type: "product", source_id: src.id, url, status: "parsed" });
+    }
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : "Unknown error";
+    dry.rejected.push({ url, reason });
+    emit(ctx, { type: "product", source_id: src.id, url, status: "failed", reason });
+  }
+
+  dry.timing.parse_ms = dry.timing.total_ms = Date.now() - t0;
+  const r: SourceResult = { source: `${url} (${a.id})`, found: dry.listings.length, complete: false, dry_run: dry };
+  emit(ctx, { type: "source_done", source_id: src.id, result: r });
+  return r;
+}
+
+/* ================= WORKER (scrape_jobs) ================= */
+
+export type WorkerOptions = {
+  worker?: string;
+  budgetMs?: number;
+  onEvent?: ScrapeContext["onEvent"];
+};
+
+type WorkerJobResult = {
+  id: string;
+  type: JobType;
+  outcome: "done" | "continues" | "retry" | "failed";
+  run_id: string | null;
+  processed?: number;
+  remaining?: number;
+  error?: string;
+  result?: unknown;
+  debug?: SourceResult[];
+};
+
+async function runOf(supabase: SB, job: ScrapeJob): Promise<RunRef & { finished: boolean }> {
+  if (job.run_id) {
+    const r = await getRun(supabase, job.run_id);
+    if (r) return { id: r.id, started_at: r.started_at, finished: r.status !== "running" };
+  }
+
+  const sources = await selectSources(supabase, job.type === "source" ? { sourceId: job.source_id } : {});
+  const run = await startRun(supabase, sources);
+  await attachRun(supabase, job.id, run.id);
+  job.run_id = run.id;
+
+  return { ...run, finished: false };
+}
+
+/**
+ * ✅ prend les jobs un par un (priorité, puis ancienneté) jusqu'au budget
+ * - url : fait en 1 fois
+ * - full / source : 1 morceau du run ; pas fini => le job repasse "queued" (repris au passage suivant)
+ * - erreur : retry avec backoff (jobs.ts failJob)
+ */
+export async function runWorker(opts: WorkerOptions = {}) {
+  const supabase = getSupabaseAdmin();
+  const worker = opts.worker || `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  const budgetMs = opts.budgetMs ?? CHUNK_BUDGET_MS;
+  const deadline = Date.now() + budgetMs;
+
+  // bail > budget : le job n'est repris par un autre worker que si celui-ci est mort
+  const leaseSeconds = Math.ceil(budgetMs / 1000) + LEASE_MARGIN_S;
+
+  const ctx: ScrapeContext = { ...(await loadScrapeContext(supabase)), onEvent: opts.onEvent };
+  const jobs: WorkerJobResult[] = [];
+
+  const done = (r: WorkerJobResult) => {
+    jobs.push(r);
+    emit(ctx, {
+      type: "job_done",
+      job_id: r.id,
+      outcome: r.outcome,
+      run_id: r.run_id,
+      processed: r.processed,
+      remaining: r.remaining,
+      error: r.error,
+    });
+  };
+
+  while (Date.now() < deadline) {
+    const job = await claimJob(supabase, worker, leaseSeconds);
+    if (!job) break;
+    emit(ctx, { type: "job", job_id: job.id, job_type: job.type, run_id: job.run_id });
+
+    try {
+      if (job.type === "url") {
+        if (!job.url) throw new Error("Missing url");
+        const src = await sourceForUrl(supabase, job.url, job.source_id);
+        // ✅ borné par le bail (budget d'un passage depuis la prise du job) : un host lent
+        // ne fait pas expirer le bail => pas de 2e worker sur le même job (DeadlineError => retry)
+        const url = job.url;
+        const result = await withDeadline(Date.now() + budgetMs, () => scrapeUrl(supabase, src, url, ctx));
+        await completeJob(supabase, job, result);
+        done({ id: job.id, type: job.type, outcome: "done", run_id: null, result });
+        continue;
+      }
+
+      const run = await runOf(supabase, job);
+      const chunk = run.finished
+        ? { done: true, processed: 0, remaining: 0, upserted: 0, debug: [] }
+        : await runChunk(supabase, run, ctx, deadline);
+
+      if (chunk.done) {
+        await completeJob(supabase, job, { run_id: run.id, upserted: chunk.upserted });
+      } else {
+        await releaseJob(supabase, job);
+      }
+
+      done({
+        id: job.id,
+        type: job.type,
+        outcome: chunk.done ? "done" : "continues",
+        run_id: run.id,
+        processed: chunk.processed,
+        remaining: chunk.remaining,
+        debug: chunk.debug,
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      const giveUp = await failJob(supabase, job, message);
+
+      // abandon : le run (et ses items) ne seront plus repris
+      if (giveUp && job.run_id) {
+        await finishRunJournal(supabase, job.run_id, "failed", await runTotals(supabase, job.run_id), message);
+        await deleteRunItems(supabase, job.run_id);
+      }
+
+      done({ id: job.id, type: job.type, outcome: giveUp ? "failed" : "retry", run_id: job.run_id, error: message });
+    }
+  }
+
+  return { ok: true, dry_run: false, worker, idle: jobs.length === 0, jobs };
+}
+
+/* ================= POINT D'ENTRÉE (/api/scrape) ================= */
+
+/**
+ * ✅ ajoute le(s) job(s) demandé(s) puis fait tourner le worker
+ * - sans filtre : run complet (1 seul job full en attente à la fois)
+ * - sourceId / host : 1 job "source" par source ; url : 1 job "url"
+ * - resumeOnly : rien n'est ajouté, on avance les jobs en attente
+ * - dryRun : en direct, sans job ni écriture (url : cette page seulement), borné à CHUNK_BUDGET_MS
+ *   (not_reached = sources pas commencées à temps)
+ * - onEvent : progression en direct (route ?stream=ndjson|sse)
+ */
+export async function runScrape(opts: ScrapeOptions = {}, onEvent?: ScrapeContext["onEvent"]) {
+  const supabase = getSupabaseAdmin();
+
+  if (opts.dryRun) {
+    const ctx: ScrapeContext = { ...(await loadScrapeContext(supabase)), limit: opts.limit, onEvent };
+    // ✅ même budget qu'un passage du worker (pas de reprise en dry-run : ce qui dépasse est signalé)
+    const deadline = Date.now() + CHUNK_BUDGET_MS;
+
+    // ✅ url : même filtre que le job "url" (source du job, sinon celle du host) => 1 seule page parsée
+    if (opts.url) {
+      const src = await sourceForUrl(supabase, opts.url, opts.sourceId ?? null);
+      const debug = [await withDeadline(deadline, () => dryRunUrl(src, opts.url!, ctx))];
+      return { ok: true, dry_run: true, run_id: null, inserted_or_updated: 0, debug, not_reached: [] };
+    }
+
+    const sources = await selectSources(supabase, opts);
+
+    const debug: SourceResult[] = [];
+    // sources pas commencées avant l'échéance (à tester avec ?source= / ?host=)
+    const notReached: string[] = [];
+    await withDeadline(deadline, () =>
+      runByHost(sources, (s) => s.url, HOST_CONCURRENCY, async (s) => {
+        if (Date.now() >= deadline) {
+          notReached.push(s.url);
+          return;
+        }
+        debug.push(await dryRunSource(s, emptyStats(), ctx));
+      })
+    );
+
+    return { ok: true, dry_run: true, run_id: null, inserted_or_updated: 0, debug, not_reached: notReached };
+  }
+
+  if (!opts.resumeOnly) {
+    if (opts.url) {
+      await enqueueJob(supabase, { type: "url", url: opts.url, source_id: opts.sourceId, priority: PRIORITY_MANUAL });
+    } else if (opts.sourceId || opts.host) {
+      for (const s of await selectSources(supabase, opts)) {
+        await enqueueJob(supabase, { type: "source", source_id: s.id, priority: PRIORITY_MANUAL });
+      }
+    } else {
+      await enqueueJob(supabase, { type: "full", priority: PRIORITY_CRON });
+    }
+  }
+
+  return runWorker({ onEvent });
+}
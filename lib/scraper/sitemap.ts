@@ -0,0 +1,128 @@
+import * as cheerio from "cheerio";
+import { DeadlineError, fetchHtml } from "./http";
+import type { Discovery, ProductRef, SourceRow, SourceStats } from "./types";
+import { isProductPath, normalizeUrl } from "./utils";
+
+/* ================= SITEMAPS ================= */
+
+// sitemap = gros fichier XML => requête lourde pour le limiter du host
+const SITEMAP_COST = 2;
+
+// garde-fous (sitemap index énormes / boucles)
+const MAX_SITEMAP_FILES = 40;
+const MAX_SITEMAP_PRODUCTS = 5000;
+
+type SitemapFile = {
+  sitemaps: string[]; // <sitemapindex> : sitemaps enfants
+  urls: Array<{ loc: string; lastmod: string | null }>; // <urlset>
+};
+
+export function parseSitemapXml(xml: string): SitemapFile {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const sitemaps = $("sitemapindex > sitemap > loc")
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter(Boolean);
+
+  const urls = $("urlset > url")
+    .map((_, el) => {
+      const loc = $(el).find("loc").first().text().trim();
+      const lastmod = $(el).find("lastmod").first().text().trim();
+      return { loc, lastmod: lastmod || null };
+    })
+    .get()
+    .filter((u) => u.loc);
+
+  return { sitemaps, urls };
+}
+
+// ✅ dans un index, on ne suit que les sitemaps produits s'il y en a (sitemap_products_1.xml, product-sitemap.xml...)
+function pickChildSitemaps(locs: string[]) {
+  const products = locs.filter((l) => /product|produit/i.test(l));
+  return products.length ? products : locs;
+}
+
+async function rootSitemaps(origin: string): Promise<string[]> {
+  // robots.txt "Sitemap: ..." si présent, sinon /sitemap.xml
+  try {
+    const robots = await fetchHtml(`${origin}/robots.txt`);
+    const found = robots
+      .split(/\r?\n/)
+      .map((line) => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+      .filter((x): x is string => !!x);
+    if (found.length) return found;
+  } catch (e) {
+    // ⚠️ échéance : /sitemap.xml par défaut ignorerait un sitemap déclaré dans robots.txt
+    if (e instanceof DeadlineError) throw e;
+  }
+
+  return [`${origin}/sitemap.xml`];
+}
+
+function toIso(lastmod: string | null): string | null {
+  if (!lastmod) return null;
+  const t = new Date(lastmod).getTime();
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+/**
+ * ✅ discovery par sitemap : TOUS les produits du shop (pas seulement ceux liés depuis nos pages catégorie)
+ * + lastmod pour sauter les produits inchangés (voir run.ts)
+ * limit => arrêt dès `limit` produits (complete false)
+ */
+export async function discoverBySitemap(src: SourceRow, stats: SourceStats, limit?: number | null): Promise<Discovery> {
+  const origin = new URL(src.url).origin;
+
+  const queue = await rootSitemaps(origin);
+  const visited = new Set<string>();
+  const products = new Map<string, ProductRef>();
+
+  let complete = true;
+  let readable = 0;
+
+  while (queue.length) {
+    const loc = queue.shift()!;
+    if (visited.has(loc)) continue;
+
+    if (visited.size >= MAX_SITEMAP_FILES || (limit && products.size >= limit)) {
+      complete = false;
+      break;
+    }
+    visited.add(loc);
+
+    let file: SitemapFile;
+    try {
+      file = parseSitemapXml(await fetchHtml(loc, SITEMAP_COST));
+      stats.pages_visited++;
+      readable++;
+    } catch (e) {
+      // ⚠️ échéance du morceau : pas un sitemap illisible => la discovery est reprise
+      if (e instanceof DeadlineError) throw e;
+      complete = false;
+      continue;
+    }
+
+    queue.push(...pickChildSitemaps(file.sitemaps));
+
+    for (const u of file.urls) {
+      try {
+        const abs = new URL(u.loc, loc);
+        if (!isProductPath(abs.pathname)) continue;
+        const url = normalizeUrl(abs.toString());
+        products.set(url, { url, lastmod: toIso(u.lastmod) });
+      } catch {}
+    }
+  }
+
+  // ✅ aucun sitemap lisible => on ne sait RIEN de ce shop, on ne doit pas retirer ses listings
+  if (!readable) throw new Error(`Sitemap unreachable (${origin})`);
+
+  const all = [...products.values()];
+
+  return {
+    products: all.slice(0, MAX_SITEMAP_PRODUCTS),
+    // ✅ produits au-delà de la limite = pas vus => pas de retrait
+    complete: complete && all.length <= MAX_SITEMAP_PRODUCTS,
+  };
+}
@@ -0,0 +1,166 @@
+import type { SB } from "../supabaseServer";
+import type { Listing, ListingOffer, SeenMark, SourceRow, SourceStats } from "./types";
+import { canonicalProductUrl, effectivePrice, normalizeUrl } from "./utils";
+
+/* ================= UPSERT ================= */
+
+/**
+ * ✅ pourquoi un listing n'est PAS enregistré (null = enregistrable)
+ * (compté "rejected" ; renvoyé tel quel par le dry-run)
+ */
+export function rejectionReason(l: Listing | null): string | null {
+  if (!l) return "not parsed (not a product, or hidden by an override)";
+
+  // ✅ évite le crash "invalid input syntax for type uuid: \"\""
+  if (!l.shop_id || String(l.shop_id).trim() === "") return "missing shop_id";
+
+  if (!l.url || String(l.url).trim() === "") return "missing url";
+  if (!l.price_cad || l.price_cad <= 0) return "missing or zero price"; // ✅ jamais de 0$
+
+  return null;
+}
+
+// ✅ FIX TYPESCRIPT "never" (Vercel build) : on utilise SB (SupabaseClient<any>)
+export async function upsertIfValid(supabase: SB, l: Listing | null, seen: SeenMark) {
+  if (!l || rejectionReason(l)) return false;
+
+  // ✅ état AVANT upsert (pour l'historique de prix)
+  const prev = await supabase
+    .from("listings")
+    .select("id, price_cad, sale_price_cad, status")
+    .eq("shop_id", l.shop_id)
+    .eq("url", l.url)
+    .maybeSingle();
+  if (prev.error) throw new Error(`Price lookup failed: ${prev.error.message}`);
+
+  // offers = table enfant ; offer_count null => pas de détail par variant (mode cheapest)
+  const { offers, ...row } = l;
+
+  const { data, error } = await supabase
+    .from("listings")
+    // retired_at null : un produit retiré puis revu (remis en vente) réapparaît avec son historique
+    .upsert({ ...row, ...seen, retired_at: null, offer_count: offers ? offers.length : null }, { onConflict: "shop_id,url" })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Upsert failed: ${error.message}`);
+
+  await recordPriceChange(supabase, data.id, prev.data as PricePoint | null, l);
+  // ✅ TOUJOURS : source repassée en "cheapest" (offers absent) => ses anciennes offres sont supprimées
+  await syncOffers(supabase, data.id, offers ?? []);
+
+  return true;
+}
+
+/* ================= OFFERS (variants) ================= */
+
+/**
+ * ✅ remplace les offres du listing par celles de ce run
+ * (upsert par variant_id, puis suppression des variants disparus)
+ */
+async function syncOffers(supabase: SB, listing_id: string, offers: ListingOffer[]) {
+  const now = new Date().toISOString();
+
+  if (offers.length) {
+    const { error } = await supabase.from("listing_offers").upsert(
+      offers.map((o, position) => ({ ...o, listing_id, position, updated_at: now })),
+      { onConflict: "listing_id,variant_id" }
+    );
+    if (error) throw new Error(`Offers upsert failed: ${error.message}`);
+  }
+
+  const { error } = await supabase
+    .from("listing_offers")
+    .delete()
+    .eq("listing_id", listing_id)
+    .lt("updated_at", now);
+  if (error) throw new Error(`Offers cleanup failed: ${error.message}`);
+}
+
+/* ================= PRICE HISTORY ================= */
+
+type PricePoint = {
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  status: string;
+};
+
+function priceChanged(prev: PricePoint, next: PricePoint) {
+  return (
+    effectivePrice(prev.price_cad, prev.sale_price_cad) !== effectivePrice(next.price_cad, next.sale_price_cad) ||
+    prev.sale_price_cad !== next.sale_price_cad ||
+    prev.status !== next.status
+  );
+}
+
+/**
+ * ✅ 1 ligne dans listing_price_history à la 1re observation
+ * puis SEULEMENT quand prix effectif / prix soldé / status changent
+ */
+async function recordPriceChange(supabase: SB, listing_id: string, prev: PricePoint | null, next: PricePoint) {
+  if (prev && !priceChanged(prev, next)) return;
+
+  const { error } = await supabase.from("listing_price_history").insert({
+    listing_id,
+    price_cad: next.price_cad,
+    sale_price_cad: next.sale_price_cad,
+    effective_price_cad: effectivePrice(next.price_cad, next.sale_price_cad),
+    status: next.status,
+  });
+  if (error) throw new Error(`Price history failed: ${error.message}`);
+}
+
+export function countUpsert(stats: SourceStats, ok: boolean) {
+  if (ok) stats.upserted++;
+  else stats.rejected++;
+  return ok;
+}
+
+const KEEP_SEEN_BATCH = 100;
+
+/**
+ * ✅ produit qui a planté pendant le run (429, timeout...) ou sauté car inchangé (sitemap) :
+ * on rafraîchit last_seen_at du listing existant pour qu'il ne soit PAS retiré
+ * (+ source_id : un listing d'avant le suivi par source est rattaché à celle qui le revoit)
+ */
+export async function keepSeen(supabase: SB, shop_id: string, rawUrls: string[], seen: SeenMark) {
+  const urls = new Set<string>();
+  for (const u of rawUrls) {
+    try {
+      urls.add(normalizeUrl(u));
+      urls.add(canonicalProductUrl(u));
+    } catch {}
+  }
+  if (!urls.size) return;
+
+  // ✅ par paquets (le filtre "in" part dans la query string)
+  const all = [...urls];
+  for (let i = 0; i < all.length; i += KEEP_SEEN_BATCH) {
+    const { error } = await supabase
+      .from("listings")
+      .update({ source_id: seen.source_id, last_seen_at: seen.last_seen_at })
+      .eq("shop_id", shop_id)
+      .in("url", all.slice(i, i + KEEP_SEEN_BATCH));
+    if (error) throw new Error(`Keep-seen failed: ${error.message}`);
+  }
+}
+
+/**
+ * ✅ retire les listings de cette source qui n'ont pas été vus pendant ce run
+ * (appelé SEULEMENT après un passage complet et sans erreur de la source)
+ * ⚠️ retired_at, PAS de delete : supprimer = perdre l'historique de prix (on delete cascade)
+ * + listings sans source (d'avant le suivi par source, voir migration 0001) du même shop et de la même catégorie
+ */
+export async function retireUnseen(supabase: SB, src: SourceRow, seen: SeenMark): Promise<number> {
+  const legacy = `and(source_id.is.null,shop_id.eq.${src.shop_id},category.eq."${src.category}")`;
+
+  const { data, error } = await supabase
+    .from("listings")
+    .update({ retired_at: new Date().toISOString() })
+    .or(`source_id.eq.${seen.source_id},${legacy}`)
+    .lt("last_seen_at", seen.last_seen_at)
+    .is("retired_at", null)
+    .select("id");
+  if (error) throw new Error(`Retire failed: ${error.message}`);
+
+  return (data ?? []).length;
+}
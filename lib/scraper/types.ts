@@ -0,0 +1,180 @@
+/* ================= SOURCES / LISTINGS ================= */
+
+export type SourceRow = {
+  id: string;
+  url: string;
+  shop_id: string;
+  category: string;
+  is_active: boolean;
+  adapter: string | null; // null = auto-détection (voir registry.ts)
+  discovery: "crawl" | "sitemap" | null; // pour les adapters "page produit" (null = crawl)
+  variant_mode: "cheapest" | "all" | null; // Shopify : "all" = 1 offre par variant (null = cheapest)
+};
+
+// colonnes éditables depuis l'admin (/api/admin/sources)
+export const SOURCE_FIELDS = ["url", "shop_id", "category", "is_active", "adapter", "discovery", "variant_mode"] as const;
+
+export type Listing = {
+  shop_id: string;
+  category: string;
+  title_raw: string;
+  url: string | null; // URL canonique (sans /en/ et sans tracking)
+  image_url: string | null;
+
+  price_cad: number | null;
+  sale_price_cad: number | null;
+
+  status: "available" | "sold_out";
+  variant: string | null; // info (variant choisi) - mais PAS dans l'URL
+  sale_mode: string | null;
+  unit_type: string | null;
+  unit_count: number | null;
+
+  // rempli au scrape par coralType.ts (pas par les adapters)
+  coral_type?: string | null;
+  coral_type_confidence?: number | null;
+
+  // rempli au scrape par images.ts (copie de image_url dans notre stockage + vignette des cartes)
+  image_mirror_url?: string | null;
+  image_thumb_url?: string | null;
+
+  // variant_mode "all" : toutes les variants (PAS une colonne de listings, voir listing_offers)
+  offers?: ListingOffer[];
+};
+
+/**
+ * ✅ 1 variant d'un produit (ex: Rapunzel torch 1 / 2 / 3 têtes)
+ * le listing parent garde la moins chère => "à partir de X$"
+ */
+export type ListingOffer = {
+  variant_id: string;
+  title: string | null;
+  price_cad: number | null;
+  sale_price_cad: number | null;
+  status: "available" | "sold_out";
+  unit_type: string | null;
+  unit_count: number | null;
+};
+
+// ✅ marque "vu pendant ce run" (écrite sur chaque listing upserté)
+export type SeenMark = {
+  source_id: string;
+  last_seen_at: string;
+};
+
+// ✅ compteurs par source (journalisés dans scrape_run_sources)
+export type SourceStats = {
+  strategy: string | null; // id de l'adapter, ou "crawl" en auto
+  pages_visited: number;
+  products_seen: number;
+  upserted: number;
+  rejected: number;
+  unchanged: number; // sautés grâce au lastmod du sitemap
+  errors: number;
+};
+
+export type SourceResult = {
+  source: string;
+  found: number;
+  error?: string;
+  complete?: boolean; // passage complet (discovery + produits) => retrait autorisé
+  retired?: number;
+  dry_run?: DryRunReport; // dry-run : ce qui AURAIT été écrit
+};
+
+/**
+ * ✅ dry-run d'une source : listings parsés, raisons de rejet (store.ts rejectionReason) et durées
+ * rien n'est écrit (ni listings, ni journal)
+ */
+export type DryRunReport = {
+  discovered: number; // produits trouvés par la discovery (avant limit)
+  discovery_complete: boolean;
+  listings: Listing[];
+  rejected: Array<{ url: string; reason: string }>;
+  timing: { discovery_ms: number; parse_ms: number; total_ms: number };
+};
+
+/**
+ * ✅ progression en direct d'un scrape (/api/scrape?stream=ndjson|sse, voir ScrapeContext.onEvent)
+ * - source_started / discovered : discovery d'une source (pages = pages catégorie, sitemap ou API visitées)
+ * - product : 1 produit traité ("parsed" = dry-run, rien d'écrit)
+ * - source_done : source clôturée (journal + retrait)
+ * - job / job_done : le worker prend / rend un job de scrape_jobs
+ */
+export type ScrapeEvent =
+  | { type: "source_started"; source_id: string; source: string }
+  | {
+      type: "discovered";
+      source_id: string;
+      strategy: string | null;
+      pages: number;
+      products: number;
+      complete: boolean;
+      error?: string;
+    }
+  | {
+      type: "product";
+      source_id: string;
+      url: string;
+      status: "upserted" | "parsed" | "rejected" | "failed";
+      reason?: string | null;
+    }
+  | { type: "source_done"; source_id: string; result: SourceResult }
+  | { type: "job"; job_id: string; job_type: string; run_id: string | null }
+  | {
+      type: "job_done";
+      job_id: string;
+      outcome: string;
+      run_id: string | null;
+      processed?: number;
+      remaining?: number;
+      error?: string;
+    };
+
+/* ================= ADAPTERS ================= */
+
+export type AdapterId =
+  | "shopify-catalog"
+  | "woocommerce-store-api"
+  | "shopify-product-js"
+  | "shopify-html"
+  | "woocommerce-html";
+
+/**
+ * Un produit trouvé pendant la discovery.
+ * `data` = payload déjà téléchargé (ex: produit de /products.json) pour éviter un 2e fetch.
+ */
+export type ProductRef = {
+  url: string;
+  data?: unknown;
+  lastmod?: string | null; // <lastmod> du sitemap (ISO)
+};
+
+export type Discovery = {
+  products: ProductRef[];
+  complete: boolean; // false si la discovery a été coupée (429/5xx) => pas de retrait
+  resume?: DiscoverCursor; // coupée par l'échéance du morceau (http.ts withDeadline) : products = pages déjà lues
+};
+
+// ✅ reprise d'une discovery paginée au morceau suivant (gardée dans le work item discover)
+export type DiscoverCursor = { page: number };
+
+/**
+ * Une plateforme de shop (Shopify, Woo, ...).
+ *
+ * - `detect` : auto-détection au niveau SOURCE (ex: /products.json répond).
+ * - `claims` : en crawl auto, l'adapter sait-il parser CETTE url produit ?
+ * - `discover` : liste des produits de la source (`cursor` : reprise d'une pagination coupée, voir Discovery.resume ;
+ *   `limit` : assez de produits (dry-run) => arrêt dès `limit` produits trouvés, complete false).
+ * - `parse` : 1 produit => Listing (null = produit ignoré / pas pour cet adapter).
+ */
+export type ShopAdapter = {
+  id: AdapterId;
+  label: string;
+
+  detect(src: SourceRow): Promise<boolean>;
+  claims(url: string): boolean;
+
+  discover(src: SourceRow, stats: SourceStats, cursor?: DiscoverCursor | null, limit?: number | null): Promise<Discovery>;
+  parse(ref: ProductRef, src: SourceRow): Promise<Listing | null>;
+};
@@ -0,0 +1,93 @@
+/* ================= UNITÉS (têtes / polypes / colonie) ================= */
+
+export type UnitType = "head" | "polyp" | "colony";
+
+export type ParsedUnits = {
+  unit_type: UnitType;
+  unit_count: number | null; // null = inconnu (ex: "colony") ; fourchette "2-3" => minimum garanti
+};
+
+// au-delà = sûrement pas un nb de têtes (ex: "24h shipping") ; "100 polyps" reste ok
+const MAX_COUNT: Record<UnitType, number> = { head: 20, polyp: 500, colony: 1 };
+
+// mot d'unité après un nombre ("3 heads", "3H", "2 têtes", "5 polyps")
+const UNIT_WORDS: Array<{ type: UnitType; re: string }> = [
+  { type: "head", re: "(?:heads?|tetes?|h)" },
+  { type: "polyp", re: "(?:polyps?|polypes?)" },
+];
+
+const WORD_COUNTS: Record<string, number> = {
+  single: 1,
+  one: 1,
+  une: 1,
+  un: 1,
+  double: 2,
+  two: 2,
+  deux: 2,
+  triple: 3,
+  three: 3,
+  trois: 3,
+};
+
+// minuscules + sans accents ("têtes" => "tetes")
+function fold(t: string) {
+  return t
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+function valid(type: UnitType, n: number): ParsedUnits | null {
+  if (!Number.isFinite(n) || n <= 0 || n > MAX_COUNT[type]) return null;
+  return { unit_type: type, unit_count: n };
+}
+
+// 1er nombre valide parmi TOUTES les occurrences ("24h shipping, 3 heads" : 24h rejeté => 3)
+function firstValid(t: string, re: RegExp, type: UnitType, count: (m: RegExpMatchArray) => number) {
+  for (const m of t.matchAll(re)) {
+    const u = valid(type, count(m));
+    if (u) return u;
+  }
+  return null;
+}
+
+function parseFolded(t: string): ParsedUnits | null {
+  const words = Object.keys(WORD_COUNTS).join("|");
+
+  for (const { type, re } of UNIT_WORDS) {
+    const found =
+      // "2-3 tetes", "2 to 3 heads" => 2 (minimum garanti)
+      firstValid(t, new RegExp(`\\b(\\d+)\\s*(?:-|–|to|a)\\s*\\d+\\s*${re}\\b`, "g"), type, (m) => Number(m[1])) ??
+      // "10+ polyps", "3 heads", "3h"
+      firstValid(t, new RegExp(`\\b(\\d+)\\s*\\+?\\s*${re}\\b`, "g"), type, (m) => Number(m[1])) ??
+      // "heads: 3", "polyps x 5"
+      firstValid(t, new RegExp(`\\b${re}\\s*[:x]\\s*(\\d+)\\b`, "g"), type, (m) => Number(m[1])) ??
+      // "single head", "double tete"
+      firstValid(t, new RegExp(`\\b(${words})[\\s-]*${re}\\b`, "g"), type, (m) => WORD_COUNTS[m[1]]);
+    if (found) return found;
+  }
+
+  if (/\bcolon(?:y|ie|ies)\b/.test(t)) return { unit_type: "colony", unit_count: null };
+
+  return null;
+}
+
+/**
+ * ✅ unités depuis un titre produit / variant :
+ * "3 heads", "3H", "2-3 têtes", "5 polyps", "10+ polyps", "single head", "Heads: 3", "colony"
+ * title_raw = "titre produit — variant" => le variant (dernier segment) d'abord :
+ * "Rapunzel Torch 2 heads — 1 head" = le frag vendu a 1 tête
+ * null = rien trouvé
+ */
+export function parseUnits(raw: string | null | undefined): ParsedUnits | null {
+  const t = fold(raw || "");
+  if (!t.trim()) return null;
+
+  const segments = t.split(" — ");
+  if (segments.length > 1) {
+    const fromVariant = parseFolded(segments[segments.length - 1]);
+    if (fromVariant) return fromVariant;
+  }
+
+  return parseFolded(t);
+}
@@ -0,0 +1,84 @@
+import type { Listing } from "./types";
+import { parseUnits } from "./units";
+
+/* ================= UTILS ================= */
+
+export const norm = (s = "") => (s || "").replace(/\s+/g, " ").trim();
+
+export const priceNum = (s = "") => {
+  const t = (s || "").replace(/\s/g, "").replace(/,/g, ".").replace(/[^0-9.]/g, "");
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const isWysiwyg = (t: string) => (t || "").toLowerCase().includes("wysiwyg");
+
+export function enforceTorch(listing: Listing): Listing {
+  // ✅ unit_count / unit_type depuis le titre ("3 heads", "10+ polyps", "colony"...), voir units.ts
+  const units = parseUnits(listing.title_raw);
+  const l = units ? { ...listing, ...units } : listing;
+
+  if (l.category !== "torch") return l;
+  if (isWysiwyg(l.title_raw)) return { ...l, sale_mode: "wysiwyg" };
+  return { ...l, sale_mode: "per_unit", unit_type: l.unit_type ?? "head" };
+}
+
+// ✅ enlève /en/, /fr/, /en-ca/ etc au début du path
+export function stripLocale(raw: string) {
+  const u = new URL(raw);
+  u.pathname = u.pathname.replace(/^\/[a-z]{2}(?:-[a-z]{2})?\//i, "/");
+  return u.toString();
+}
+
+// ✅ normalisation URL (anti doublon)
+export function normalizeUrl(raw: string) {
+  const cleaned = stripLocale(raw);
+  const u = new URL(cleaned);
+
+  ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content", "fbclid", "gclid"].forEach((k) =>
+    u.searchParams.delete(k)
+  );
+
+  u.pathname = u.pathname.replace(/\/+$/, "");
+
+  const params = Array.from(u.searchParams.entries()).sort(([a], [b]) => a.localeCompare(b));
+  u.search = "";
+  for (const [k, v] of params) u.searchParams.append(k, v);
+
+  return u.toString();
+}
+
+// ✅ règle unique "est-ce une page produit ?" (crawl catégories + sitemaps)
+export function isProductPath(pathname: string) {
+  const p = pathname.toLowerCase();
+  return p.includes("/products/") || p.includes("/product/") || p.includes("/produit/");
+}
+
+// ✅ url canonique produit (sans query)
+export function canonicalProductUrl(raw: string) {
+  const u = new URL(normalizeUrl(raw));
+  u.search = "";
+  return u.toString();
+}
+
+export function safePrice(n: number | null): number | null {
+  if (n == null) return null;
+  if (!Number.isFinite(n)) return null;
+  if (n <= 0) return null;
+  return n;
+}
+
+export function effectivePrice(price: number | null, sale: number | null) {
+  return sale ?? price;
+}
+
+/* ================= RATE LIMIT HELPERS ================= */
+
+export function sleep(ms: number) {
+  return new Promise((res) => setTimeout(res, ms));
+}
+
+export function jitterMs(max = 300) {
+  return Math.floor(Math.random() * max);
+}
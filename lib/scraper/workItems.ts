@@ -0,0 +1,180 @@
+import type { SB } from "../supabaseServer";
+import type { DiscoverCursor, ProductRef, SourceRow } from "./types";
+
+/* ================= WORK ITEMS (scrape_work_items) ================= */
+
+export type WorkItemStatus = "pending" | "done" | "rejected" | "unchanged" | "failed";
+
+export type WorkItem = {
+  id: number;
+  run_id: string;
+  source_id: string;
+  kind: "discover" | "product";
+  url: string;
+  status: WorkItemStatus;
+  adapter: string | null;
+  data: unknown;
+  lastmod: string | null;
+  error_message: string | null;
+};
+
+// résultat d'un item discover (gardé dans data, relu à la clôture de la source)
+export type DiscoverResult = {
+  strategy: string | null;
+  pages_visited: number;
+  products: number;
+  complete: boolean;
+};
+
+// item discover coupé par l'échéance d'un morceau (gardé dans data tant qu'il est pending)
+export type DiscoverProgress = {
+  cursor: DiscoverCursor | null; // null = discovery non paginée (crawl, sitemap) : reprise depuis le début
+  pages_visited: number;
+  products: number; // déjà en file (items produit)
+  interrupted: number;
+};
+
+const WORK_ITEM_FIELDS = "id, run_id, source_id, kind, url, status, adapter, data, lastmod, error_message";
+
+const INSERT_BATCH = 500;
+// ⚠️ PostgREST renvoie 1000 lignes max par requête
+const PAGE_SIZE = 1000;
+
+export async function enqueueDiscovery(supabase: SB, run_id: string, sources: SourceRow[]) {
+  if (!sources.length) return;
+
+  const { error } = await supabase
+    .from("scrape_work_items")
+    .insert(sources.map((s) => ({ run_id, source_id: s.id, kind: "discover", url: s.url })));
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+}
+
+/**
+ * ✅ 1 item par produit découvert
+ * unchanged (lastmod du sitemap antérieur au dernier passage complet) => déjà traité, pas de re-scrape
+ */
+export async function enqueueProducts(
+  supabase: SB,
+  run_id: string,
+  source_id: string,
+  adapter: string | null,
+  products: ProductRef[],
+  isUnchanged: (p: ProductRef) => boolean
+) {
+  const rows = products.map((p) => {
+    const unchanged = isUnchanged(p);
+    return {
+      run_id,
+      source_id,
+      kind: "product",
+      url: p.url,
+      adapter,
+      data: unchanged ? null : (p.data ?? null),
+      lastmod: p.lastmod ?? null,
+      status: unchanged ? "unchanged" : "pending",
+      processed_at: unchanged ? new Date().toISOString() : null,
+    };
+  });
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    // même url découverte 2 fois (pagination, sitemap) => 1 seul item
+    const { error } = await supabase
+      .from("scrape_work_items")
+      .upsert(rows.slice(i, i + INSERT_BATCH), { onConflict: "run_id,source_id,kind,url", ignoreDuplicates: true });
+    if (error) throw new Error(`Work items failed: ${error.message}`);
+  }
+}
+
+// discover d'abord (ils créent les items produit), puis produits dans l'ordre de découverte
+export async function nextPendingItems(supabase: SB, run_id: string, limit: number): Promise<WorkItem[]> {
+  const { data, error } = await supabase
+    .from("scrape_work_items")
+    .select(WORK_ITEM_FIELDS)
+    .eq("run_id", run_id)
+    .eq("status", "pending")
+    .order("kind", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+
+  return (data ?? []) as WorkItem[];
+}
+
+/**
+ * ✅ item coupé par l'échéance du morceau (http.ts withDeadline) : reste pending, data = de quoi reprendre
+ * (ex: discover paginé => page suivante, voir DiscoverProgress)
+ */
+export async function saveItemProgress(supabase: SB, id: number, data: unknown) {
+  const { error } = await supabase.from("scrape_work_items").update({ data }).eq("id", id);
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+}
+
+export async function finishItem(
+  supabase: SB,
+  id: number,
+  status: Exclude<WorkItemStatus, "pending">,
+  patch: { data?: unknown; error_message?: string | null } = {}
+) {
+  const { error } = await supabase
+    .from("scrape_work_items")
+    .update({ status, processed_at: new Date().toISOString(), ...patch })
+    .eq("id", id);
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+}
+
+export async function countItems(
+  supabase: SB,
+  run_id: string,
+  filter: { source_id?: string; kind?: WorkItem["kind"]; status?: WorkItemStatus } = {}
+): Promise<number> {
+  let q = supabase.from("scrape_work_items").select("id", { count: "exact", head: true }).eq("run_id", run_id);
+  if (filter.source_id) q = q.eq("source_id", filter.source_id);
+  if (filter.kind) q = q.eq("kind", filter.kind);
+  if (filter.status) q = q.eq("status", filter.status);
+
+  const { count, error } = await q;
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+  return count ?? 0;
+}
+
+export async function discoverItems(supabase: SB, run_id: string): Promise<WorkItem[]> {
+  const { data, error } = await supabase
+    .from("scrape_work_items")
+    .select(WORK_ITEM_FIELDS)
+    .eq("run_id", run_id)
+    .eq("kind", "discover");
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+
+  return (data ?? []) as WorkItem[];
+}
+
+// urls produit d'une source dans ces statuts (ex: failed + unchanged => keepSeen)
+export async function itemUrls(
+  supabase: SB,
+  run_id: string,
+  source_id: string,
+  statuses: WorkItemStatus[]
+): Promise<string[]> {
+  const urls: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("scrape_work_items")
+      .select("url")
+      .eq("run_id", run_id)
+      .eq("source_id", source_id)
+      .eq("kind", "product")
+      .in("status", statuses)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Work items failed: ${error.message}`);
+
+    urls.push(...(data ?? []).map((r: { url: string }) => r.url));
+    if (!data || data.length < PAGE_SIZE) return urls;
+  }
+}
+
+// run terminé : le journal garde les compteurs, les items ne servent plus
+export async function deleteRunItems(supabase: SB, run_id: string) {
+  const { error } = await supabase.from("scrape_work_items").delete().eq("run_id", run_id);
+  if (error) throw new Error(`Work items failed: ${error.message}`);
+}
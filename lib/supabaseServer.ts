@@ -0,0 +1,24 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ⚠️ IMPORTANT: NE PAS throw au top-level (sinon Vercel build fail)
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+
+// ✅ FIX TS (Vercel): on fixe un type stable pour Supabase
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SB = SupabaseClient<any>;
+
+/**
+ * Client service role (SERVEUR uniquement : routes API, scripts).
+ * ✅ crée le client SEULEMENT quand on en a besoin
+ */
+export function getSupabaseAdmin(): SB {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("Missing SUPABASE env vars");
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+}
@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Listing } from "./listings";
+
+/* ===================== CATALOGUE DES VARIANTES (pages /compare) ===================== */
+
+export type CompareType = "torch" | "zoa" | "acro";
+
+export type CompareTypeDef = {
+  type: CompareType; // = listings.coral_type
+  label: string;
+  icon: string; // image par défaut des variantes sans image
+};
+
+/**
+ * Une variante (table coral_variants + variant_aliases).
+ * ✅ éditable en base : ajouter une orthographe de "Hellfire" = 1 ligne, pas un deploy
+ */
+export type VariantDef = {
+  id: string | null; // null = nom libre (pas dans le catalogue)
+  type: CompareType;
+  name: string;
+  slug: string;
+  aliases: string[]; // autres orthographes ("hell fire", "indogold"...)
+  exclude: string[]; // un de ces mots dans le titre => PAS cette variante
+  image: string | null;
+  impliesType: boolean; // le nom seul suffit au classifieur du scraper pour deviner coral_type
+};
+
+export const COMPARE_TYPES: Record<CompareType, CompareTypeDef> = {
+  torch: { type: "torch", label: "Torch", icon: "/variants/torch/torch-defaultv3.png" },
+  zoa: { type: "zoa", label: "Zoa", icon: "/icone/zoa02.png" },
+  acro: { type: "acro", label: "Acro", icon: "/icone/acro02.png" },
+};
+
+export function compareTypeDef(type: string): CompareTypeDef | null {
+  return (COMPARE_TYPES as Record<string, CompareTypeDef | undefined>)[type] ?? null;
+}
+
+/* ===================== CATALOGUE (Supabase) ===================== */
+
+export type VariantRow = {
+  id: string;
+  coral_type: CompareType;
+  name: string;
+  slug: string;
+  image_url: string | null;
+  exclude_words: string[] | null;
+  implies_type: boolean | null;
+  variant_aliases: Array<{ alias: string }> | null;
+};
+
+export const VARIANT_FIELDS =
+  "id, coral_type, name, slug, image_url, exclude_words, implies_type, position, variant_aliases(alias)";
+
+export function variantFromRow(r: VariantRow): VariantDef {
+  return {
+    id: r.id,
+    type: r.coral_type,
+    name: r.name,
+    slug: r.slug,
+    aliases: (r.variant_aliases ?? []).map((a) => a.alias).filter(Boolean),
+    exclude: (r.exclude_words ?? []).filter(Boolean),
+    image: r.image_url,
+    impliesType: r.implies_type !== false,
+  };
+}
+
+/**
+ * ✅ variantes d'un type (ou de tous les types) dans l'ordre d'affichage
+ * client = anon côté pages, service role côté scraper
+ */
+export async function fetchVariants(client: SupabaseClient, type?: CompareType): Promise<VariantDef[]> {
+  let q = client.from("coral_variants").select(VARIANT_FIELDS);
+  if (type) q = q.eq("coral_type", type);
+
+  const { data, error } = await q.order("position", { ascending: true }).order("name", { ascending: true });
+  if (error) throw new Error(`Variants load failed: ${error.message}`);
+
+  return ((data ?? []) as unknown as VariantRow[]).map(variantFromRow);
+}
+
+/* ===================== SLUGS / NOMS ===================== */
+
+export function variantToSlug(v: string): string {
+  return (v || "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-");
+}
+
+export function slugToVariant(slug: string): string {
+  return (slug || "").toLowerCase().replace(/-/g, " ").trim();
+}
+
+export function prettyVariantName(v: string): string {
+  const raw = (v || "").trim();
+  if (!raw) return "";
+  const compact = raw.replace(/\s+/g, "");
+  if (compact.length > 0 && compact.length <= 4) return compact.toUpperCase();
+  return raw
+    .toLowerCase()
+    .split(/\s+/g)
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/**
+ * ✅ variante du catalogue pour un slug d'url ;
+ * sinon nom libre (ex: lien depuis listing.variant d'un shop)
+ */
+export function variantFromSlug(type: CompareType, variants: VariantDef[], slug: string): VariantDef {
+  const s = (slug || "").trim().toLowerCase();
+  return (
+    variants.find((v) => v.slug === s) ?? {
+      id: null,
+      type,
+      name: slugToVariant(s),
+      slug: s,
+      aliases: [],
+      exclude: [],
+      image: null,
+      impliesType: false,
+    }
+  );
+}
+
+/* ===================== MATCHING ===================== */
+
+function norm(s: string): string {
+  return (s || "").toLowerCase().replace(/[^a-z0-9]+/g, "").trim();
+}
+
+export function normSpace(s: string): string {
+  return (s || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+// 1 terme, avec et sans espaces ("dragon soul" / "dragonsoul")
+export function needlesForTerm(term: string): string[] {
+  const n = (term || "").trim().toLowerCase();
+  return [...new Set([n, normSpace(n), norm(n)])].filter(Boolean);
+}
+
+// nom + alias
+export function needlesForVariant(v: VariantDef): string[] {
+  return [...new Set([v.name, ...(v.aliases ?? [])].flatMap(needlesForTerm))];
+}
+
+export function textForMatch(l: Listing): string {
+  return `${l.title_raw || ""} ${l.variant || ""}`.toLowerCase();
+}
+
+export function includesAny(hay: string, needles: string[]): boolean {
+  for (const n of needles) {
+    const s = (n || "").toLowerCase().trim();
+    if (!s) continue;
+    if (hay.includes(s)) return true;
+  }
+  return false;
+}
+
+/**
+ * ✅ coral_type est assigné au scrape (lib/scraper/coralType.ts)
+ * variant null = toutes les offres du type ; sinon + mots-clés de cette variante, moins ses exclusions
+ */
+export function listingMatchesVariant(l: Listing, type: CompareType, v: VariantDef | null): boolean {
+  if (l.coral_type !== type) return false;
+  if (!v) return true;
+
+  const hay = textForMatch(l);
+  if (includesAny(hay, v.exclude)) return false;
+  return includesAny(hay, needlesForVariant(v));
+}
+
+// préfiltre SQL (.or) : title_raw OU variant contient un des needles
+export function buildOrForNeedles(needles: string[]): string {
+  const parts: string[] = [];
+  for (const nd of needles) {
+    const a = normSpace(nd);
+    const b = norm(nd);
+
+    if (a) {
+      const aEsc = a.replace(/%/g, "\\%");
+      parts.push(`title_raw.ilike.%${aEsc}%`);
+      parts.push(`variant.ilike.%${aEsc}%`);
+    }
+    if (b && b !== a) {
+      const bEsc = b.replace(/%/g, "\\%");
+      parts.push(`title_raw.ilike.%${bEsc}%`);
+      parts.push(`variant.ilike.%${bEsc}%`);
+    }
+  }
+  return parts.join(",");
+}
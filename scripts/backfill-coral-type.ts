@@ -0,0 +1,90 @@
+// Classe (coral_type + confiance) les listings déjà en base qui n'ont pas de coral_type
+// (écrits avant le classifieur : les pages filtrent sur coral_type, ils seraient invisibles jusqu'au re-scrape,
+//  et un produit "inchangé" du sitemap n'est jamais re-parsé)
+// usage : npm run backfill:coral-type [-- --all] [-- --dry-run]
+//   --all : re-classe TOUS les listings (après un changement du classifieur ou de la taxonomie)
+//   --dry-run : compte seulement, rien n'est écrit
+
+import { config } from "dotenv";
+
+config({ path: ".env.local" });
+
+// ⚠️ PostgREST renvoie 1000 lignes max par requête
+const PAGE_SIZE = 1000;
+
+type Row = {
+  id: string;
+  shop_id: string;
+  url: string | null;
+  title_raw: string;
+  variant: string | null;
+  category: string | null;
+  coral_type: string | null;
+  coral_type_confidence: number | null;
+};
+
+async function main() {
+  // ⚠️ import APRÈS dotenv : supabaseServer lit les env au chargement
+  const { getSupabaseAdmin } = await import("../lib/supabaseServer");
+  const { fetchVariants } = await import("../lib/variants");
+  const { classifyCoralType } = await import("../lib/scraper/coralType");
+  const { loadOverrides, overrideKey } = await import("../lib/scraper/overrides");
+
+  const all = process.argv.includes("--all");
+  const dryRun = process.argv.includes("--dry-run");
+
+  const supabase = getSupabaseAdmin();
+  const variants = await fetchVariants(supabase);
+  const overrides = await loadOverrides(supabase);
+
+  let seen = 0;
+  let updated = 0;
+  const byType = new Map<string, number>();
+
+  // pagination par id (keyset) : les lignes mises à jour sortent du filtre "coral_type is null"
+  for (let lastId: string | null = null; ; ) {
+    let q = supabase
+      .from("listings")
+      .select("id, shop_id, url, title_raw, variant, category, coral_type, coral_type_confidence")
+      .order("id", { ascending: true })
+      .limit(PAGE_SIZE);
+    if (!all) q = q.is("coral_type", null);
+    if (lastId) q = q.gt("id", lastId);
+
+    const { data, error } = await q;
+    if (error) throw new Error(`Backfill failed: ${error.message}`);
+    const rows = (data ?? []) as Row[];
+    if (!rows.length) break;
+
+    for (const r of rows) {
+      seen++;
+      // ✅ coral_type épinglé par l'admin (listing_overrides) : prioritaire, comme au scrape
+      const o = r.url ? overrides.get(overrideKey(r.shop_id, r.url)) : undefined;
+      const guess =
+        o?.coral_type != null
+          ? { coral_type: o.coral_type, coral_type_confidence: 1 }
+          : classifyCoralType(r.title_raw, r.variant, r.category, variants);
+
+      const type = guess.coral_type ?? "(aucun)";
+      byType.set(type, (byType.get(type) ?? 0) + 1);
+      if (guess.coral_type === r.coral_type && guess.coral_type_confidence === r.coral_type_confidence) continue;
+
+      updated++;
+      if (dryRun) continue;
+      const { error: uErr } = await supabase.from("listings").update(guess).eq("id", r.id);
+      if (uErr) throw new Error(`Backfill failed: ${uErr.message}`);
+    }
+
+    lastId = rows[rows.length - 1].id;
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  const summary = [...byType].sort((a, b) => b[1] - a[1]).map(([t, n]) => `${t}: ${n}`);
+  console.log(`${seen} listings lus, ${updated} ${dryRun ? "à mettre à jour (dry-run)" : "mis à jour"}`);
+  if (summary.length) console.log(`  ${summary.join(", ")}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+// Corpus de titres => type de corail attendu (lib/scraper/coralType.ts)
+// usage : npm run check:coral-type
+
+import { classifyCoralType } from "../lib/scraper/coralType";
+import type { CoralType } from "../lib/scraper/coralType";
+
+// [titre, catégorie de la source, type attendu]
+const CORPUS: Array<[string, string | null, CoralType | null]> = [
+  // mot fort du type
+  ["Rapunzel Torch — 3 heads", "torch", "torch"],
+  ["Utter Chaos Zoanthus 5 polyps", null, "zoa"],
+  ["Hammer / Torch combo", null, "hammer"],
+
+  // accessoire / animal cité dans le titre d'un corail => corail
+  ["Torch coral on frag plug", "torch", "torch"],
+  ["Zoa + snail", null, "zoa"],
+  ["Fisheye Zoa", null, "zoa"],
+  ["Foodie's Choice Acro", null, "acro"],
+  ["Hammer Clamshell WYSIWYG", null, "hammer"],
+  ["Gluestick Monti", null, "monti"],
+
+  // non-coral : mot entier (ou pluriel)
+  ["Frag plug 10 pack", null, "non-coral"],
+  ["Reef glue (gel)", null, "non-coral"],
+  ["Turbo snails x5", null, "non-coral"],
+  ["Maxima clam", null, "non-coral"],
+  ["Clownfish pair", null, null],
+
+  // rien dans le titre => catégorie de la source
+  ["Dragon Soul WYSIWYG", "torch", "torch"],
+  ["Mystery frag", null, null],
+];
+
+let failed = 0;
+
+for (const [title, category, expected] of CORPUS) {
+  const got = classifyCoralType(title, null, category).coral_type;
+  if (got !== expected) {
+    failed++;
+    console.error(`✗ ${title}\n    attendu: ${expected}\n    obtenu:  ${got}`);
+  }
+}
+
+console.log(`${CORPUS.length - failed}/${CORPUS.length} titres OK`);
+if (failed) process.exit(1);
@@ -0,0 +1,90 @@
+// Rejoue les réponses de shops enregistrées (fixtures/shops/) à travers les parsers, hors ligne
+// usage : npm run check:fixtures [-- --only=<name>] [-- --update]
+//   --update : le résultat actuel devient le snapshot attendu (après un changement VOULU d'un parser)
+
+import { setFetcher } from "../lib/scraper/http";
+import {
+  fixtureSourceRow,
+  listFixtures,
+  loadFixture,
+  readExpected,
+  replayFetcher,
+  snapshotSource,
+  writeExpected,
+} from "../lib/scraper/fixtures";
+import type { FixtureSnapshot } from "../lib/scraper/fixtures";
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((a) => {
+    const [k, v] = a.replace(/^--/, "").split("=");
+    return [k, v ?? "1"];
+  })
+);
+
+// 1re différence lisible (le diff complet : git diff fixtures/ après --update)
+function firstDifference(expected: FixtureSnapshot, got: FixtureSnapshot): string {
+  for (const k of ["strategy", "complete", "products"] as const) {
+    if (JSON.stringify(expected[k]) !== JSON.stringify(got[k])) {
+      return `${k}\n    attendu: ${JSON.stringify(expected[k])}\n    obtenu:  ${JSON.stringify(got[k])}`;
+    }
+  }
+
+  const n = Math.max(expected.listings.length, got.listings.length);
+  for (let i = 0; i < n; i++) {
+    const e = JSON.stringify(expected.listings[i] ?? null);
+    const g = JSON.stringify(got.listings[i] ?? null);
+    if (e !== g) {
+      const url = got.listings[i]?.url ?? expected.listings[i]?.url;
+      return `listing ${url}\n    attendu: ${e}\n    obtenu:  ${g}`;
+    }
+  }
+  return "";
+}
+
+async function main() {
+  const names = args.only ? [args.only] : await listFixtures();
+  // ⚠️ dossier vide = rien de vérifié : échec (pas un faux vert)
+  if (!names.length) {
+    console.error("Aucune fixture (fixtures/shops/), voir npm run fixtures:record");
+    process.exit(1);
+  }
+
+  let failed = 0;
+
+  for (const name of names) {
+    const { fixture, captured } = await loadFixture(name);
+    const missing = new Set<string>();
+
+    // ✅ aucun accès réseau, et pas d'attente du limiter
+    setFetcher(replayFetcher(captured, missing), { rateLimit: false });
+    const got = await snapshotSource(fixtureSourceRow(name, fixture.source), fixture.limit);
+    setFetcher(null);
+
+    // ⚠️ un parser qui demande une url jamais enregistrée reçoit un 404 : à ré-enregistrer
+    for (const url of missing) console.warn(`  ⚠️ ${name} : url absente de la fixture ${url}`);
+
+    if (args.update) {
+      await writeExpected(name, got);
+      console.log(`↻ ${name} : ${got.listings.length} listings`);
+      continue;
+    }
+
+    const expected = await readExpected(name);
+    const diff = expected ? firstDifference(expected, got) : "expected.json manquant (--update pour le créer)";
+    if (diff) {
+      failed++;
+      console.error(`✗ ${name} : ${diff}`);
+    } else {
+      console.log(`✓ ${name} : ${got.listings.length} listings`);
+    }
+  }
+
+  if (args.update) return;
+  console.log(`${names.length - failed}/${names.length} shops OK`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
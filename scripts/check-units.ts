@@ -0,0 +1,50 @@
+// Corpus de titres réels => unités attendues (lib/scraper/units.ts)
+// usage : npm run check:units
+
+import { parseUnits } from "../lib/scraper/units";
+import type { ParsedUnits } from "../lib/scraper/units";
+
+const CORPUS: Array<[string, ParsedUnits | null]> = [
+  // têtes
+  ["Rapunzel Torch — 3 heads", { unit_type: "head", unit_count: 3 }],
+  ["Indo Gold Torch 1 Head", { unit_type: "head", unit_count: 1 }],
+  ["Dragon Soul Torch (3H)", { unit_type: "head", unit_count: 3 }],
+  ["Holy Grail Torch 2H frag", { unit_type: "head", unit_count: 2 }],
+  ["Torche Hammer 2-3 têtes", { unit_type: "head", unit_count: 2 }],
+  ["Euphyllia glabrescens 2 à 3 têtes", { unit_type: "head", unit_count: 2 }],
+  ["Torche Paraancora une tête", { unit_type: "head", unit_count: 1 }],
+  ["Banana Hammer — Single Head", { unit_type: "head", unit_count: 1 }],
+  ["Jester Torch double head", { unit_type: "head", unit_count: 2 }],
+  ["Torch Frag 5+ heads", { unit_type: "head", unit_count: 5 }],
+  ["Aussie Torch — Heads: 4", { unit_type: "head", unit_count: 4 }],
+  ["24h shipping — 3 heads", { unit_type: "head", unit_count: 3 }],
+  ["Rapunzel Torch 2 heads — 1 head", { unit_type: "head", unit_count: 1 }],
+
+  // polypes
+  ["Rainbow Acan 5 polyps", { unit_type: "polyp", unit_count: 5 }],
+  ["Zoanthus Utter Chaos 10+ polyps", { unit_type: "polyp", unit_count: 10 }],
+  ["Palythoa 8-10 polypes", { unit_type: "polyp", unit_count: 8 }],
+
+  // colonie
+  ["Ultra Duncan Colony", { unit_type: "colony", unit_count: null }],
+  ["Colonie Goniopora WYSIWYG", { unit_type: "colony", unit_count: null }],
+
+  // rien
+  ["Dragon Soul Torch WYSIWYG", null],
+  ["Gold Torch", null],
+  ["Torch — 24h shipping guarantee", null],
+  ["Euphyllia Paraancora 2 inch", null],
+];
+
+let failed = 0;
+
+for (const [title, expected] of CORPUS) {
+  const got = parseUnits(title);
+  if (JSON.stringify(got) !== JSON.stringify(expected)) {
+    failed++;
+    console.error(`✗ ${title}\n    attendu: ${JSON.stringify(expected)}\n    obtenu:  ${JSON.stringify(got)}`);
+  }
+}
+
+console.log(`${CORPUS.length - failed}/${CORPUS.length} titres OK`);
+if (failed) process.exit(1);
@@ -0,0 +1,16 @@
+// scripts/hash-admin-password.mjs
+// usage : npm run admin:hash -- "mot de passe"
+// => coller la sortie dans ADMIN_PASSWORD_HASH (.env.local / Vercel), jamais le mot de passe en clair
+import { randomBytes, scryptSync } from "node:crypto";
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Usage: npm run admin:hash -- "mot de passe"');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+
+console.log(`scrypt:${salt.toString("hex")}:${hash.toString("hex")}`);
@@ -0,0 +1,434 @@
+// scripts/mock-shops.mjs
+// Faux shops locaux pour développer le scraper sans toucher aux vrais (et sans se faire 429)
+// usage : npm run mock:shops [-- --products=24] [--per-page=12] [--woo-pagination=product-page|paged|path]
+//         [--store-api] [--fail-rate=0.1] [--error-status=429|503|mix] [--retry-after=2] [--rate-limit=5] [--quiet]
+//
+// - Shopify (http://localhost:4101) : /products.json, /products/<handle>.js, /products/<handle> (ShopifyAnalytics.meta),
+//   /collections/torch (crawl)
+// - WooCommerce (http://127.0.0.1:4102) : /product-category/torch/ paginée (?product-page= / ?paged= / /page/n/),
+//   /product/<slug>/ (.summary .price, ins / del, .stock) ; --store-api : /wp-json/wc/store/v1/products
+// - les deux : /sitemap.xml (+ lastmod), /images/<handle>.png
+// ⚠️ 2 hostnames différents (localhost / 127.0.0.1) => 2 limiters distincts côté scraper (rateLimit.ts hostKey)
+import { createServer } from "node:http";
+import { deflateSync } from "node:zlib";
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((a) => {
+    const [k, v] = a.replace(/^--/, "").split("=");
+    return [k, v ?? "1"];
+  })
+);
+
+const num = (v, d) => (v != null && Number.isFinite(Number(v)) ? Number(v) : d);
+
+const SHOPIFY_PORT = num(process.env.MOCK_SHOPIFY_PORT, 4101);
+const WOO_PORT = num(process.env.MOCK_WOO_PORT, 4102);
+
+const PRODUCTS = num(args.products, 24);
+const PER_PAGE = Math.max(1, num(args["per-page"], 12));
+// style de pagination que le "thème" Woo route ; les autres => 404 (le crawl doit retomber sur le bon)
+const WOO_PAGINATION = args["woo-pagination"] || "product-page";
+// Store API Woo servie ? (sinon 404 => auto-détection : crawl HTML)
+const STORE_API = Boolean(args["store-api"]);
+
+// ✅ injection de pannes (fetchWithRetry / limiter)
+const FAIL_RATE = num(args["fail-rate"], 0); // proportion de requêtes en erreur (0..1)
+const ERROR_STATUS = args["error-status"] || "mix"; // 429 | 503 | mix
+const RETRY_AFTER = num(args["retry-after"], 1); // secondes (429 seulement)
+const RATE_LIMIT = num(args["rate-limit"], 0); // requêtes / s par shop au-delà => 429 (0 = illimité)
+const QUIET = Boolean(args.quiet);
+
+/* ================= CATALOGUE (déterministe) ================= */
+
+// même seed => mêmes produits à chaque lancement (fixtures stables)
+function mulberry32(seed) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const NAMES = [
+  "Gold Torch",
+  "Rapunzel Torch",
+  "Dragon Soul Torch",
+  "Holy Grail Torch",
+  "Indo Gold Torch",
+  "Jester Torch",
+  "Banana Hammer",
+  "Aussie Torch",
+  "Euphyllia Paraancora",
+  "Euphyllia glabrescens",
+];
+const HEADS = ["1 head", "2 heads", "3 heads", "WYSIWYG", "Single Head", "5+ heads"];
+
+function buildCatalog(n) {
+  const rand = mulberry32(42);
+  const out = [];
+
+  for (let i = 0; i < n; i++) {
+    const title = `${NAMES[i % NAMES.length]} ${HEADS[Math.floor(rand() * HEADS.length)]}`;
+    const handle = `${title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}-${i + 1}`;
+    const base = Math.round(40 + rand() * 260);
+    const onSale = rand() < 0.3;
+    const soldOut = rand() < 0.15;
+    const multi = rand() < 0.25;
+
+    // multi : 1 / 2 / 3 têtes (variant_mode "all") ; sinon "Default Title"
+    const variants = (multi ? ["1 head", "2 heads", "3 heads"] : ["Default Title"]).map((vt, k) => {
+      const price = base * (k + 1);
+      return {
+        id: (i + 1) * 100 + k,
+        title: vt,
+        price,
+        compare_at_price: onSale ? Math.round(price * 1.25) : null,
+        available: !soldOut && !(multi && k === 2 && rand() < 0.5),
+      };
+    });
+
+    out.push({
+      id: i + 1,
+      handle,
+      title,
+      tags: ["coral", "torch"],
+      variants,
+      // lastmod : étalé sur les 30 derniers jours
+      updated_at: new Date(Date.UTC(2026, 9, 1) + Math.floor(rand() * 30) * 86400000).toISOString(),
+      color: [Math.floor(rand() * 256), Math.floor(rand() * 256), Math.floor(rand() * 256)],
+    });
+  }
+
+  return out;
+}
+
+const CATALOG = buildCatalog(PRODUCTS);
+const byHandle = new Map(CATALOG.map((p) => [p.handle, p]));
+
+const money = (n) => n.toFixed(2);
+const cents = (n) => Math.round(n * 100);
+const esc = (s) => String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/* ================= IMAGES (PNG unie, sans dépendance) ================= */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf) {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const td = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(td));
+  return Buffer.concat([len, td, crc]);
+}
+
+function solidPng([r, g, b], size = 64) {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(size, 0);
+  ihdr.writeUInt32BE(size, 4);
+  ihdr[8] = 8; // 8 bits
+  ihdr[9] = 2; // RGB
+
+  const row = Buffer.alloc(1 + size * 3);
+  for (let x = 0; x < size; x++) row.set([r, g, b], 1 + x * 3);
+  const raw = Buffer.concat(Array.from({ length: size }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/* ================= PANNES ================= */
+
+function faultFor(shop) {
+  // token bucket grossier : N requêtes par seconde glissante
+  if (RATE_LIMIT > 0) {
+    const now = Date.now();
+    shop.hits = shop.hits.filter((t) => now - t < 1000);
+    if (shop.hits.length >= RATE_LIMIT) return 429;
+    shop.hits.push(now);
+  }
+
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    if (ERROR_STATUS === "mix") return Math.random() < 0.5 ? 429 : 503;
+    return Number(ERROR_STATUS) || 503;
+  }
+  return 0;
+}
+
+/* ================= RÉPONSES ================= */
+
+function send(res, status, type, body, headers = {}) {
+  res.writeHead(status, { "content-type": type, ...headers });
+  res.end(body);
+}
+
+const html = (res, body) => send(res, 200, "text/html; charset=utf-8", body);
+const json = (res, body) => send(res, 200, "application/json; charset=utf-8", JSON.stringify(body));
+const notFound = (res) => send(res, 404, "text/html; charset=utf-8", "<h1>404 Not Found</h1>");
+
+function page(title, body, head = "") {
+  return `<!doctype html><html><head><title>${esc(title)}</title>${head}</head><body>${body}</body></html>`;
+}
+
+// page catégorie commune (crawl) : n = 1..
+function categoryPage(res, origin, n, linkOf) {
+  const items = CATALOG.slice((n - 1) * PER_PAGE, n * PER_PAGE);
+  if (!items.length) return notFound(res);
+
+  const lis = items.map((p) => `<li class="product"><a href="${linkOf(p)}">${esc(p.title)}</a></li>`).join("");
+  // liens non-produit (menu, panier) : le crawl doit les ignorer
+  const nav = `<nav><a href="${origin}/">Home</a> <a href="${origin}/cart">Cart</a></nav>`;
+  return html(res, page("Torch corals", `${nav}<ul class="products">${lis}</ul>`));
+}
+
+// n° de page d'une url catégorie : /page/n/, ?product-page=n ou ?paged=n (style = lequel, null = page 1 nue)
+function pageOf(url, pathPage) {
+  if (pathPage) return { n: Number(pathPage), style: "path" };
+  if (url.searchParams.get("product-page")) return { n: num(url.searchParams.get("product-page"), 1), style: "product-page" };
+  if (url.searchParams.get("paged")) return { n: num(url.searchParams.get("paged"), 1), style: "paged" };
+  return { n: 1, style: null };
+}
+
+function sitemap(res, urlOf) {
+  const urls = CATALOG.map((p) => `<url><loc>${esc(urlOf(p))}</loc><lastmod>${p.updated_at}</lastmod></url>`).join("");
+  send(
+    res,
+    200,
+    "application/xml; charset=utf-8",
+    `<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`
+  );
+}
+
+/* ================= SHOPIFY ================= */
+
+// /products.json : prix en chaînes "99.00"
+function shopifyJsonProduct(origin, p) {
+  return {
+    id: p.id,
+    title: p.title,
+    handle: p.handle,
+    tags: p.tags,
+    updated_at: p.updated_at,
+    variants: p.variants.map((v) => ({
+      id: v.id,
+      title: v.title,
+      price: money(v.price),
+      compare_at_price: v.compare_at_price != null ? money(v.compare_at_price) : null,
+      available: v.available,
+    })),
+    image: { src: `${origin}/images/${p.handle}.png` },
+    images: [{ src: `${origin}/images/${p.handle}.png` }],
+  };
+}
+
+// /products/<handle>.js et ShopifyAnalytics.meta : prix en cents
+function shopifyJsProduct(origin, p) {
+  return {
+    id: p.id,
+    title: p.title,
+    handle: p.handle,
+    featured_image: `${origin}/images/${p.handle}.png`,
+    images: [`${origin}/images/${p.handle}.png`],
+    variants: p.variants.map((v) => ({
+      id: v.id,
+      title: v.title,
+      price: cents(v.price),
+      compare_at_price: v.compare_at_price != null ? cents(v.compare_at_price) : null,
+      available: v.available,
+      featured_image: null,
+    })),
+  };
+}
+
+function shopify(req, res, url, origin) {
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+
+  if (path === "/products.json") {
+    const limit = Math.min(250, Math.max(1, num(url.searchParams.get("limit"), 30)));
+    const n = Math.max(1, num(url.searchParams.get("page"), 1));
+    return json(res, { products: CATALOG.slice((n - 1) * limit, n * limit).map((p) => shopifyJsonProduct(origin, p)) });
+  }
+
+  // collection : les 3 styles de pagination (le crawl essaie ?product-page= en premier)
+  const col = path.match(/^\/collections\/torch(?:\/page\/(\d+))?$/);
+  if (col) return categoryPage(res, origin, pageOf(url, col[1]).n, (p) => `/products/${p.handle}`);
+  if (path === "/sitemap.xml") return sitemap(res, (p) => `${origin}/products/${p.handle}`);
+
+  const js = path.match(/^\/products\/([^/]+)\.js$/);
+  if (js) {
+    const p = byHandle.get(js[1]);
+    return p ? json(res, shopifyJsProduct(origin, p)) : notFound(res);
+  }
+
+  const prod = path.match(/^\/products\/([^/.]+)$/);
+  if (prod) {
+    const p = byHandle.get(prod[1]);
+    if (!p) return notFound(res);
+
+    const meta = { product: shopifyJsProduct(origin, p), page: { pageType: "product" } };
+    const head = `<meta property="og:image" content="${origin}/images/${p.handle}.png">`;
+    const soldOut = p.variants.every((v) => !v.available) ? `<button disabled>Sold out</button>` : `<button>Add to cart</button>`;
+    const body =
+      `<h1>${esc(p.title)}</h1><span class="price">$${money(p.variants[0].price)}</span>${soldOut}` +
+      `<script>window.ShopifyAnalytics = window.ShopifyAnalytics || {};\nShopifyAnalytics.meta = ${JSON.stringify(meta)};\n</script>`;
+    return html(res, page(p.title, body, head));
+  }
+
+  return notFound(res);
+}
+
+/* ================= WOOCOMMERCE ================= */
+
+function wooProductPage(origin, p) {
+  // produit simple : 1er variant (Woo n'a pas de variants ici)
+  const v = p.variants[0];
+  const img = `${origin}/images/${p.handle}.png`;
+
+  const amount = (n) => `<span class="woocommerce-Price-amount amount"><bdi>${money(n)}&nbsp;$</bdi></span>`;
+  const price =
+    v.compare_at_price != null
+      ? `<p class="price"><del>${amount(v.compare_at_price)}</del> <ins>${amount(v.price)}</ins></p>`
+      : `<p class="price">${amount(v.price)}</p>`;
+  const stock = v.available ? `<p class="stock in-stock">12 in stock</p>` : `<p class="stock out-of-stock">Out of stock</p>`;
+
+  return page(
+    p.title,
+    `<header><img src="${origin}/wp-content/uploads/logo.png" alt="logo"></header>` +
+      `<div class="product"><div class="woocommerce-product-gallery"><img class="wp-post-image" src="${img}"></div>` +
+      `<div class="summary"><h1 class="product_title">${esc(p.title)}</h1>${price}${stock}</div></div>`,
+    `<meta property="og:image" content="${img}">`
+  );
+}
+
+// Store API : prix en unités mineures (chaînes "9900"), produit à variations => price_range
+function wooStoreProduct(origin, p) {
+  const v = p.variants[0];
+  const amounts = p.variants.map((x) => cents(x.price));
+  return {
+    id: p.id,
+    name: p.title,
+    permalink: `${origin}/product/${p.handle}/`,
+    is_in_stock: p.variants.some((x) => x.available),
+    prices: {
+      price: String(cents(v.price)),
+      regular_price: String(cents(v.compare_at_price ?? v.price)),
+      sale_price: String(cents(v.price)),
+      currency_minor_unit: 2,
+      price_range:
+        p.variants.length > 1 ? { min_amount: String(Math.min(...amounts)), max_amount: String(Math.max(...amounts)) } : null,
+    },
+    images: [{ src: `${origin}/images/${p.handle}.png` }],
+    categories: [{ slug: "torch", name: "Torch" }],
+  };
+}
+
+function woo(req, res, url, origin) {
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+  const link = (p) => `${origin}/product/${p.handle}/`;
+
+  if (path === "/wp-json/wc/store/v1/products") {
+    if (!STORE_API) return notFound(res);
+
+    const perPage = Math.min(100, Math.max(1, num(url.searchParams.get("per_page"), 10)));
+    const n = Math.max(1, num(url.searchParams.get("page"), 1));
+    const category = url.searchParams.get("category");
+    const all = category && category !== "torch" ? [] : CATALOG;
+    const items = all.slice((n - 1) * perPage, n * perPage).map((p) => wooStoreProduct(origin, p));
+    // ✅ comme WordPress : total et nb de pages en en-têtes
+    return send(res, 200, "application/json; charset=utf-8", JSON.stringify(items), {
+      "x-wp-total": String(all.length),
+      "x-wp-totalpages": String(Math.max(1, Math.ceil(all.length / perPage))),
+    });
+  }
+
+  const cat = path.match(/^\/product-category\/torch(?:\/page\/(\d+))?$/);
+  if (cat) {
+    // 1 seul style routé par le "thème", les autres => 404 (page 1 nue toujours servie)
+    const { n, style } = pageOf(url, cat[1]);
+    if (style && style !== WOO_PAGINATION) return notFound(res);
+    return categoryPage(res, origin, n, link);
+  }
+
+  if (path === "/sitemap.xml") return sitemap(res, link);
+
+  const prod = path.match(/^\/product\/([^/]+)$/);
+  if (prod) {
+    const p = byHandle.get(prod[1]);
+    return p ? html(res, wooProductPage(origin, p)) : notFound(res);
+  }
+
+  return notFound(res);
+}
+
+/* ================= SERVEURS ================= */
+
+function serve(name, port, hostname, handler) {
+  const origin = `http://${hostname}:${port}`;
+  const shop = { hits: [] };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || "/", origin);
+
+    res.on("finish", () => {
+      if (!QUIET) console.log(`[${name}] ${res.statusCode} ${req.method} ${url.pathname}${url.search}`);
+    });
+
+    const fault = faultFor(shop);
+    if (fault) {
+      const headers = fault === 429 ? { "retry-after": String(RETRY_AFTER) } : {};
+      return send(res, fault, "text/plain; charset=utf-8", fault === 429 ? "Too Many Requests" : "Service Unavailable", headers);
+    }
+
+    const img = url.pathname.match(/^\/images\/([^/]+)\.png$/);
+    if (img) {
+      const p = byHandle.get(img[1]);
+      if (!p) return notFound(res);
+
+      // ✅ ETag => requête conditionnelle du miroir d'images (lib/scraper/images.ts) : 304 sans corps
+      const etag = `"${p.handle}-${p.color.join("-")}"`;
+      if (req.headers["if-none-match"] === etag) {
+        res.writeHead(304, { etag });
+        return res.end();
+      }
+      return send(res, 200, "image/png", solidPng(p.color), { etag, "cache-control": "max-age=86400" });
+    }
+
+    handler(req, res, url, origin);
+  });
+
+  server.listen(port, hostname);
+  return origin;
+}
+
+const shopifyOrigin = serve("shopify", SHOPIFY_PORT, "localhost", shopify);
+const wooOrigin = serve("woo", WOO_PORT, "127.0.0.1", woo);
+
+console.log(
+  `${PRODUCTS} produits, ${PER_PAGE} par page catégorie, pagination Woo : ${WOO_PAGINATION}` +
+    (STORE_API ? ", Store API Woo" : "")
+);
+if (FAIL_RATE || RATE_LIMIT) {
+  console.log(`pannes : ${FAIL_RATE * 100}% (${ERROR_STATUS}), limite ${RATE_LIMIT || "∞"} req/s, Retry-After ${RETRY_AFTER}s`);
+}
+console.log(`
+scrape_sources à créer (admin > sources, puis "🧪 Tester cette source" ou --source=<id> --dry-run) :
+  ${shopifyOrigin}/collections/torch        adapter auto (shopify-catalog) ou shopify-product-js / shopify-html
+  ${wooOrigin}/product-category/torch/   adapter auto (${STORE_API ? "woocommerce-store-api" : "crawl"}) ou woocommerce-html, discovery crawl | sitemap
+fixtures hors ligne : npm run fixtures:record -- --name=mock-woo --url=${wooOrigin}/product-category/torch/
+Ctrl+C pour arrêter`);
@@ -0,0 +1,52 @@
+// Enregistre les réponses d'un shop (discovery + N fiches produit) dans fixtures/shops/<name>/
+// usage : npm run fixtures:record -- --name=<shop> --url=<page catégorie> [--category=torch]
+//         [--adapter=<id>] [--discovery=sitemap] [--variant-mode=all] [--limit=10]
+// ⚠️ passe par le réseau (et le limiter par host, comme un vrai scrape)
+
+import { setFetcher } from "../lib/scraper/http";
+import { fixtureSourceRow, recordingFetcher, saveFixture, snapshotSource } from "../lib/scraper/fixtures";
+import type { CapturedBody, FixtureSource } from "../lib/scraper/fixtures";
+
+const DEFAULT_LIMIT = 10;
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((a) => {
+    const [k, ...v] = a.replace(/^--/, "").split("=");
+    return [k, v.length ? v.join("=") : "1"];
+  })
+);
+
+async function main() {
+  const name = args.name || "";
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name) || !args.url) {
+    console.error("usage : npm run fixtures:record -- --name=<shop> --url=<page catégorie> [--limit=10]");
+    process.exit(1);
+  }
+
+  const limit = Number(args.limit) > 0 ? Math.floor(Number(args.limit)) : DEFAULT_LIMIT;
+  const source: FixtureSource = {
+    url: args.url,
+    category: args.category || "torch",
+    adapter: args.adapter || null,
+    discovery: args.discovery === "sitemap" ? "sitemap" : null,
+    variant_mode: args["variant-mode"] === "all" ? "all" : null,
+  };
+
+  const captured = new Map<string, CapturedBody>();
+  setFetcher(recordingFetcher(captured));
+  const snapshot = await snapshotSource(fixtureSourceRow(name, source), limit);
+  setFetcher(null);
+
+  await saveFixture(name, source, limit, captured, snapshot);
+
+  const errors = snapshot.listings.filter((l) => l.error).length;
+  console.log(
+    `${name} : ${captured.size} réponses, ${snapshot.products.length} produits (${snapshot.strategy}), ` +
+      `${snapshot.listings.length} parsés${errors ? `, ${errors} en erreur` : ""}`
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
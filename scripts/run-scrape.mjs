@@ -1,17 +1,17 @@
 // scripts/run-scrape.mjs
-import { Agent, setGlobalDispatcher } from "undici";
-
-// ✅ enlève les timeouts "headersTimeout" et "bodyTimeout" d'undici (sinon crash si ça prend 15 min)
-setGlobalDispatcher(
-  new Agent({
-    headersTimeout: 0,
-    bodyTimeout: 0,
-  })
-);
+// usage : node scripts/run-scrape.mjs [--source=<id>] [--host=shop.com] [--url=<page produit>] [--dry-run] [--limit=N] [--stream]
+// (worker local sans passer par le site : npm run scrape:worker)
+// code de sortie : 0 = ok, 1 = erreur, 2 = aucun job pris (file vide ou job déjà pris par un autre worker)
+import { createHmac } from "node:crypto";
 
 const BASE = process.env.SITE_URL;        // ex: http://localhost:3000 ou https://compare-coral.ca
 const SECRET = process.env.SCRAPE_SECRET; // le même que dans ton .env.local / Vercel
 
+// garde-fou : un run de ~2000 produits tient en quelques dizaines de morceaux
+const MAX_CHUNKS = 500;
+// ≠ 0 : le cron voit qu'aucun travail n'a été fait
+const EXIT_NOTHING_CLAIMED = 2;
+
 if (!BASE) {
   console.error("Missing SITE_URL env");
   process.exit(1);
@@ -21,14 +21,118 @@ if (!SECRET) {
   process.exit(1);
 }
 
-const url = `${BASE}/api/scrape?secret=${encodeURIComponent(SECRET)}`;
+// ✅ 1 shop / dry-run (voir app/api/scrape/route.ts)
+const args = Object.fromEntries(
+  process.argv.slice(2).map((a) => {
+    const [k, v] = a.replace(/^--/, "").split("=");
+    return [k, v ?? "1"];
+  })
+);
+
+const url = new URL("/api/scrape", BASE);
+if (args.source) url.searchParams.set("source", args.source);
+if (args.host) url.searchParams.set("host", args.host);
+if (args.url) url.searchParams.set("url", args.url);
+if (args["dry-run"]) url.searchParams.set("dry_run", "1");
+if (args.limit) url.searchParams.set("limit", args.limit);
+// ✅ progression en direct (ndjson : 1 évènement JSON par ligne, le dernier = "done" | "error")
+if (args.stream) url.searchParams.set("stream", "ndjson");
+
+// 1 ligne lisible par évènement (voir lib/scraper/types.ts ScrapeEvent)
+function render(e) {
+  switch (e.type) {
+    case "job":
+      return `▶ job ${e.job_id} (${e.job_type})`;
+    case "job_done":
+      return `■ job ${e.job_id} : ${e.outcome}${e.remaining ? `, ${e.remaining} restants` : ""}${e.error ? ` (${e.error})` : ""}`;
+    case "source_started":
+      return `→ ${e.source}`;
+    case "discovered":
+      return `  ${e.strategy ?? "?"} : ${e.pages} pages, ${e.products} produits${e.complete ? "" : " (incomplet)"}${e.error ? ` ⚠️ ${e.error}` : ""}`;
+    case "product":
+      return `  ${e.status === "upserted" || e.status === "parsed" ? "✓" : "✗"} ${e.url}${e.reason ? ` (${e.reason})` : ""}`;
+    case "source_done":
+      return `✔ ${e.result.source} : ${e.result.found} produits${e.result.retired ? `, ${e.result.retired} retirés` : ""}${e.result.error ? ` ⚠️ ${e.result.error}` : ""}`;
+    default:
+      return JSON.stringify(e);
+  }
+}
+
+// lit le flux ligne par ligne, renvoie le résultat final (même JSON qu'en mode normal)
+async function readStream(res) {
+  const decoder = new TextDecoder();
+  let buf = "";
+  let result = null;
+
+  for await (const chunk of res.body) {
+    buf += decoder.decode(chunk, { stream: true });
+    const lines = buf.split("\n");
+    buf = lines.pop();
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const e = JSON.parse(line);
+      if (e.type === "done") result = e.result;
+      else if (e.type === "error") result = { ok: false, error: e.error };
+      else console.log(render(e));
+    }
+  }
+
+  if (!result) result = { ok: false, error: "Stream ended without result" };
+  if (!result.ok) console.error("Error:", result.error);
+  return result;
+}
+
+// ✅ requête signée (HMAC + horodatage) : le secret ne part jamais sur le réseau ni dans les logs
+async function call() {
+  const method = "POST";
+  const timestamp = String(Date.now());
+  const signature = createHmac("sha256", SECRET)
+    .update(`${timestamp}.${method}.${url.pathname}${url.search}`)
+    .digest("hex");
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "x-scrape-timestamp": timestamp,
+      "x-scrape-signature": signature,
+    },
+  });
+
+  if (args.stream && res.ok) return readStream(res);
+
+  const text = await res.text();
+
+  console.log("Status:", res.status);
+  console.log(text);
+
+  if (!res.ok) process.exit(1);
+  return JSON.parse(text);
+}
+
+console.log("Calling:", url.toString());
+
+// ✅ run découpé : chaque appel = 1 passage du worker (~45 s), on rappelle tant qu'un job continue
+// (plus besoin de désactiver les timeouts d'undici)
+for (let i = 1; i <= MAX_CHUNKS; i++) {
+  const json = await call();
+  // dry-run borné : sources pas atteintes à tester une par une (--source=<id>)
+  for (const u of json.not_reached ?? []) console.warn(`⚠️ dry-run : source pas atteinte ${u}`);
+  if (json.dry_run || !json.ok) process.exit(json.ok ? 0 : 1);
 
-console.log("Calling:", url);
+  // ⚠️ 1er appel sans aucun job pris : le job demandé n'a pas tourné (ce n'est pas un succès)
+  if (i === 1 && json.idle) {
+    console.warn("Aucun job pris : file vide, ou job déjà en cours chez un autre worker");
+    process.exit(EXIT_NOTHING_CLAIMED);
+  }
 
-const res = await fetch(url, { method: "GET" });
-const text = await res.text();
+  const continuing = (json.jobs ?? []).filter((j) => j.outcome === "continues");
+  if (!continuing.length) process.exit(0);
 
-console.log("Status:", res.status);
-console.log(text);
+  // les appels suivants ne font qu'avancer les jobs (pas de nouveau job à chaque tour)
+  url.searchParams.set("resume", "1");
+  if (!args.stream) for (const j of continuing) console.log(`--- chunk ${i} : job ${j.id} ${j.processed} items, ${j.remaining} restants`);
+}
 
-if (!res.ok) process.exit(1);
+console.error(`Run not finished after ${MAX_CHUNKS} chunks`);
+process.exit(1);
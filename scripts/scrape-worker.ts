@@ -0,0 +1,38 @@
+// Worker local de la file scrape_jobs (même code que /api/scrape, sans limite de durée serverless)
+// usage : npm run scrape:worker [-- --watch]
+//   sans --watch : traite les jobs jusqu'à ce que la file soit vide, puis s'arrête
+//   --watch : attend les nouveaux jobs (Ctrl+C pour arrêter)
+
+import { config } from "dotenv";
+
+config({ path: ".env.local" });
+
+// passage du worker : plus long qu'en serverless (rien ne coupe le process)
+const BUDGET_MS = 10 * 60 * 1000;
+const WATCH_INTERVAL_MS = 30 * 1000;
+
+async function main() {
+  // ⚠️ import APRÈS dotenv : supabaseServer lit les env au chargement
+  const { runWorker } = await import("../lib/scraper/run");
+  const watch = process.argv.includes("--watch");
+
+  for (;;) {
+    const r = await runWorker({ budgetMs: BUDGET_MS });
+    for (const j of r.jobs) {
+      console.log(
+        `[${r.worker}] ${j.type} ${j.id} => ${j.outcome}` +
+          (j.remaining != null ? ` (${j.processed} items, ${j.remaining} restants)` : "") +
+          (j.error ? ` — ${j.error}` : "")
+      );
+    }
+
+    if (!r.idle) continue;
+    if (!watch) return;
+    await new Promise((resolve) => setTimeout(resolve, WATCH_INTERVAL_MS));
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+-- Scrape incrémental : plus de reset complet de `listings` à chaque run.
+-- Chaque listing garde la source qui l'a vu en dernier et quand.
+
+alter table public.listings
+  add column if not exists source_id uuid references public.scrape_sources (id) on delete set null,
+  add column if not exists last_seen_at timestamptz,
+  -- retiré (plus vu chez le shop) : la ligne reste (même id => historique de prix gardé), masquée sur les pages
+  -- revu plus tard => retired_at remis à null par l'upsert
+  add column if not exists retired_at timestamptz;
+
+-- retrait des listings non vus après un passage complet d'une source
+create index if not exists listings_source_last_seen_idx
+  on public.listings (source_id, last_seen_at);
+
+-- listings d'avant ce suivi : rattachés à LA source de leur shop + catégorie quand il n'y en a qu'une
+-- (sinon : rattachés par le prochain passage qui les revoit, et couverts par shop + catégorie au retrait, voir store.ts)
+update public.listings l
+set source_id = s.id
+from (
+  select shop_id, category, (array_agg(id))[1] as id
+  from public.scrape_sources
+  group by shop_id, category
+  having count(*) = 1
+) s
+where l.source_id is null
+  and l.shop_id = s.shop_id
+  and l.category = s.category;
+
+-- ⚠️ last_seen_at null n'est jamais "< début du run" => ces listings ne seraient jamais retirés
+update public.listings set last_seen_at = now() where last_seen_at is null;
@@ -0,0 +1,15 @@
+-- Historique des prix : 1 ligne à la 1re observation d'un listing,
+-- puis à chaque changement de prix effectif, prix soldé ou status.
+
+create table if not exists public.listing_price_history (
+  id bigint generated always as identity primary key,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  price_cad numeric,
+  sale_price_cad numeric,
+  effective_price_cad numeric,
+  status text not null,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists listing_price_history_listing_idx
+  on public.listing_price_history (listing_id, recorded_at);
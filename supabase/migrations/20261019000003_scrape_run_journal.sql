@@ -0,0 +1,38 @@
+-- Journal des runs de scrape (avant : seulement le `debug` JSON de GET /api/scrape, perdu après le cron).
+
+create table if not exists public.scrape_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  status text not null default 'running', -- running | ok | partial | failed
+  sources_count integer not null default 0,
+  upserted integer not null default 0,
+  source_errors integer not null default 0,
+  error_message text
+);
+
+create index if not exists scrape_runs_started_idx on public.scrape_runs (started_at desc);
+
+create table if not exists public.scrape_run_sources (
+  id bigint generated always as identity primary key,
+  run_id uuid not null references public.scrape_runs (id) on delete cascade,
+  source_id uuid references public.scrape_sources (id) on delete set null,
+  source_url text not null,
+  -- id de l'adapter (shopify-catalog | woocommerce-store-api | shopify-product-js | shopify-html | woocommerce-html)
+  -- ou "crawl" (aucun adapter : découverte par les pages catégorie), voir lib/scraper/registry.ts
+  strategy text,
+  started_at timestamptz not null,
+  finished_at timestamptz,
+  pages_visited integer not null default 0,
+  products_seen integer not null default 0,
+  upserted integer not null default 0,
+  rejected integer not null default 0,
+  errors integer not null default 0,
+  retired integer not null default 0,
+  complete boolean not null default false,
+  error_message text
+);
+
+-- "ce shop est passé de 300 produits à 0" : historique par source
+create index if not exists scrape_run_sources_source_idx
+  on public.scrape_run_sources (source_id, started_at desc);
@@ -0,0 +1,10 @@
+-- Adapter de scrape par source (lib/scraper/registry.ts).
+-- null = auto-détection ; sinon : shopify-catalog | shopify-product-js | shopify-html | woocommerce-html
+
+alter table public.scrape_sources
+  add column if not exists adapter text;
+
+-- ReefSolution était un cas spécial codé en dur => on l'épingle sur le catalogue Shopify
+update public.scrape_sources
+  set adapter = 'shopify-catalog'
+  where adapter is null and url ilike '%reefsolution.com%';
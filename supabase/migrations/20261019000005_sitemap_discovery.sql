@@ -0,0 +1,9 @@
+-- Discovery par sitemap (lib/scraper/sitemap.ts) pour les adapters "page produit".
+-- null / 'crawl' = pages catégorie paginées ; 'sitemap' = sitemap.xml (+ lastmod)
+
+alter table public.scrape_sources
+  add column if not exists discovery text;
+
+-- produits sautés car lastmod antérieur au dernier passage complet
+alter table public.scrape_run_sources
+  add column if not exists unchanged integer not null default 0;
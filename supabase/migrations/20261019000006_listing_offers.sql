@@ -0,0 +1,27 @@
+-- Variants Shopify comme offres comparables (lib/scraper/store.ts syncOffers).
+-- null / 'cheapest' = 1 listing = variant le moins cher ; 'all' = + 1 offre par variant
+
+alter table public.scrape_sources
+  add column if not exists variant_mode text;
+
+-- nb d'offres du listing (null = pas de détail par variant) => l'UI affiche "à partir de X$"
+alter table public.listings
+  add column if not exists offer_count integer;
+
+create table if not exists public.listing_offers (
+  id bigint generated always as identity primary key,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  variant_id text not null,
+  title text,
+  price_cad numeric,
+  sale_price_cad numeric,
+  status text not null,
+  unit_type text,
+  unit_count integer,
+  position integer not null default 0,
+  updated_at timestamptz not null default now(),
+  unique (listing_id, variant_id)
+);
+
+create index if not exists listing_offers_unit_idx
+  on public.listing_offers (unit_type, unit_count);
@@ -0,0 +1,8 @@
+-- coral_type est maintenant écrit au scrape (lib/scraper/coralType.ts) avec une confiance 0..1.
+-- Les pages filtrent sur coral_type au lieu de re-deviner depuis le titre.
+
+alter table public.listings
+  add column if not exists coral_type_confidence numeric;
+
+create index if not exists listings_coral_type_idx
+  on public.listings (coral_type);
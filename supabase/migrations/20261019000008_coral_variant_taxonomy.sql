@@ -0,0 +1,102 @@
+-- Taxonomie des variantes (lib/variants.ts) : lue par les pages /compare ET par le classifieur du scraper.
+-- Avant : TORCH_VARIANTS / needlesForVariant codés en dur (et différents entre les 2 pages torch).
+
+create table if not exists public.coral_variants (
+  id uuid primary key default gen_random_uuid(),
+  coral_type text not null, -- = listings.coral_type (torch, zoa, acro...)
+  name text not null,
+  slug text not null,
+  image_url text, -- null = icône du type
+  exclude_words text[] not null default '{}', -- mot dans le titre => PAS cette variante
+  -- le nom seul suffit au classifieur pour deviner coral_type ("Rapunzel" => torch, mais pas "Green")
+  implies_type boolean not null default true,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (coral_type, slug)
+);
+
+create table if not exists public.variant_aliases (
+  id bigint generated always as identity primary key,
+  variant_id uuid not null references public.coral_variants (id) on delete cascade,
+  alias text not null,
+  unique (variant_id, alias)
+);
+
+-- ================= SEED (ancien catalogue codé en dur) =================
+
+insert into public.coral_variants (coral_type, name, slug, position)
+values
+  ('torch', 'Dragon Soul', 'dragon-soul', 1),
+  ('torch', 'Indo', 'indo', 2),
+  ('torch', 'Jester', 'jester', 3),
+  ('torch', 'Hellfire', 'hellfire', 4),
+  ('torch', 'NY Knicks', 'ny-knicks', 5),
+  ('torch', 'Dragon Tamer', 'dragon-tamer', 6),
+  ('torch', '24K Gold', '24k-gold', 7),
+  ('torch', 'Sun God', 'sun-god', 8),
+  ('torch', 'Holy Grail', 'holy-grail', 9),
+  ('torch', 'Master Torch', 'master-torch', 10),
+  ('torch', 'Rapunzel', 'rapunzel', 11),
+  ('torch', 'Banana', 'banana', 12),
+  ('torch', 'Green', 'green', 13),
+  ('torch', 'Black', 'black', 14),
+  ('torch', 'Cotton Candy', 'cotton-candy', 15),
+  ('torch', 'Grim Reaper', 'grim-reaper', 16),
+  ('torch', 'Rasta', 'rasta', 17),
+  ('torch', 'Miami', 'miami', 18),
+  ('torch', 'Joker', 'joker', 19),
+  ('torch', 'Tiger', 'tiger', 20),
+
+  ('zoa', 'Utter Chaos', 'utter-chaos', 1),
+  ('zoa', 'Rainbow Incinerator', 'rainbow-incinerator', 2),
+  ('zoa', 'Punk Rock', 'punk-rock', 3),
+  ('zoa', 'Fruit Loops', 'fruit-loops', 4),
+  ('zoa', 'Sunny D', 'sunny-d', 5),
+  ('zoa', 'Blondie', 'blondie', 6),
+  ('zoa', 'Captain America', 'captain-america', 7),
+  ('zoa', 'Radioactive Dragon Eye', 'radioactive-dragon-eye', 8),
+  ('zoa', 'Bam Bam Orange', 'bam-bam-orange', 9),
+  ('zoa', 'Eagle Eye', 'eagle-eye', 10),
+  ('zoa', 'Magician', 'magician', 11),
+  ('zoa', 'Space Monster', 'space-monster', 12),
+
+  ('acro', 'WWC Oregon Tort', 'wwc-oregon-tort', 1),
+  ('acro', 'Walt Disney', 'walt-disney', 2),
+  ('acro', 'Red Planet', 'red-planet', 3),
+  ('acro', 'Strawberry Shortcake', 'strawberry-shortcake', 4),
+  ('acro', 'Homewrecker', 'homewrecker', 5),
+  ('acro', 'Pink Lemonade', 'pink-lemonade', 6),
+  ('acro', 'Purple Monster', 'purple-monster', 7),
+  ('acro', 'Bonsai', 'bonsai', 8),
+  ('acro', 'Tricolor Valida', 'tricolor-valida', 9),
+  ('acro', 'Pearlberry', 'pearlberry', 10)
+on conflict (coral_type, slug) do nothing;
+
+-- noms trop génériques pour deviner le type sans le mot "torch"
+update public.coral_variants
+  set implies_type = false
+  where coral_type = 'torch'
+    and slug in ('indo', 'master-torch', 'banana', 'green', 'black', 'rasta', 'miami', 'joker', 'tiger');
+
+insert into public.variant_aliases (variant_id, alias)
+select v.id, a.alias
+from (
+  values
+    ('torch', 'indo', 'indo gold'),
+    ('torch', 'hellfire', 'hell fire'),
+    ('torch', 'ny-knicks', 'knicks'),
+    ('torch', '24k-gold', '24k'),
+    ('torch', '24k-gold', '24 k'),
+    ('torch', 'master-torch', 'master'),
+    ('zoa', 'fruit-loops', 'fruit loop'),
+    ('zoa', 'captain-america', 'capt america'),
+    ('zoa', 'radioactive-dragon-eye', 'rde'),
+    ('zoa', 'bam-bam-orange', 'bambam'),
+    ('acro', 'wwc-oregon-tort', 'oregon tort'),
+    ('acro', 'walt-disney', 'disney'),
+    ('acro', 'homewrecker', 'home wrecker'),
+    ('acro', 'tricolor-valida', 'tri color valida'),
+    ('acro', 'pearlberry', 'pearl berry')
+) as a (coral_type, slug, alias)
+join public.coral_variants v on v.coral_type = a.coral_type and v.slug = a.slug
+on conflict (variant_id, alias) do nothing;
@@ -0,0 +1,17 @@
+-- Corrections admin qui survivent aux scrapes (lib/scraper/overrides.ts).
+-- Clé = (shop_id, url) : la ligne listings est recréée / réécrite par le scraper, pas l'override.
+-- null = champ non surchargé ; hidden = le scraper n'upsert plus ce produit.
+
+create table if not exists public.listing_overrides (
+  id bigint generated always as identity primary key,
+  shop_id uuid not null references public.shops (id) on delete cascade,
+  url text not null,
+  title_raw text,
+  variant text,
+  coral_type text,
+  unit_count integer,
+  image_url text,
+  hidden boolean not null default false,
+  updated_at timestamptz not null default now(),
+  unique (shop_id, url)
+);
@@ -0,0 +1,36 @@
+-- Clé anon (publique, dans le bundle client) = LECTURE SEULE.
+-- Toutes les écritures passent par le service role : scraper, routes /api/admin/* (session admin).
+-- Le service role ignore RLS ; sans policy d'écriture, anon ne peut plus insert / update / delete.
+
+alter table public.shops enable row level security;
+alter table public.listings enable row level security;
+alter table public.listing_offers enable row level security;
+alter table public.listing_price_history enable row level security;
+alter table public.coral_variants enable row level security;
+alter table public.variant_aliases enable row level security;
+
+-- internes : aucune policy => invisibles pour anon
+alter table public.listing_overrides enable row level security;
+alter table public.scrape_sources enable row level security;
+alter table public.scrape_runs enable row level security;
+alter table public.scrape_run_sources enable row level security;
+
+-- ================= LECTURE PUBLIQUE (pages /, /compare) =================
+
+drop policy if exists "public read" on public.shops;
+create policy "public read" on public.shops for select to anon, authenticated using (true);
+
+drop policy if exists "public read" on public.listings;
+create policy "public read" on public.listings for select to anon, authenticated using (true);
+
+drop policy if exists "public read" on public.listing_offers;
+create policy "public read" on public.listing_offers for select to anon, authenticated using (true);
+
+drop policy if exists "public read" on public.listing_price_history;
+create policy "public read" on public.listing_price_history for select to anon, authenticated using (true);
+
+drop policy if exists "public read" on public.coral_variants;
+create policy "public read" on public.coral_variants for select to anon, authenticated using (true);
+
+drop policy if exists "public read" on public.variant_aliases;
+create policy "public read" on public.variant_aliases for select to anon, authenticated using (true);
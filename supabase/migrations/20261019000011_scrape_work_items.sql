@@ -0,0 +1,24 @@
+-- Runs découpés en morceaux (lib/scraper/workItems.ts) : chaque invocation de /api/scrape
+-- traite des items pendant un budget de temps, la suivante reprend les items "pending".
+-- Un run est terminé (scrape_runs.status ok / partial) quand plus aucun item n'est pending.
+
+create table if not exists public.scrape_work_items (
+  id bigint generated always as identity primary key,
+  run_id uuid not null references public.scrape_runs (id) on delete cascade,
+  source_id uuid not null references public.scrape_sources (id) on delete cascade,
+  kind text not null, -- discover (1 par source) | product (1 par url produit)
+  url text not null,
+  status text not null default 'pending', -- pending | done | rejected | unchanged | failed
+  adapter text, -- product : adapter choisi à la discovery (null = selon l'url)
+  data jsonb, -- product : payload déjà téléchargé (ProductRef.data) ; discover : stats de discovery
+  lastmod text,
+  error_message text,
+  created_at timestamptz not null default now(),
+  processed_at timestamptz,
+  unique (run_id, source_id, kind, url)
+);
+
+create index if not exists scrape_work_items_pending_idx
+  on public.scrape_work_items (run_id, status, kind, id);
+
+alter table public.scrape_work_items enable row level security;
@@ -0,0 +1,94 @@
+-- File de jobs de scrape (lib/scraper/jobs.ts) : le cron, l'admin et scripts/scrape-worker.ts
+-- ajoutent des jobs ; le worker (route /api/scrape ou script) les prend UN PAR UN.
+--   full   : run complet (toutes les sources actives)
+--   source : 1 source (ex: "rescraper Fragbox maintenant", sources en échec)
+--   url    : 1 page produit
+-- full / source avancent par morceaux (scrape_work_items) : entre 2 morceaux le job repasse "queued".
+
+create table if not exists public.scrape_jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null, -- full | source | url
+  source_id uuid references public.scrape_sources (id) on delete cascade,
+  url text,
+  priority integer not null default 0, -- plus grand = d'abord
+  status text not null default 'queued', -- queued | running | done | failed
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(), -- backoff des retries
+  locked_by text,
+  locked_until timestamptz, -- bail : expiré => worker mort, job repris
+  run_id uuid references public.scrape_runs (id) on delete set null,
+  last_error text,
+  result jsonb,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists scrape_jobs_queue_idx
+  on public.scrape_jobs (status, priority desc, run_after, created_at);
+
+alter table public.scrape_jobs enable row level security;
+
+-- ================= CLAIM =================
+-- ✅ 1 seul job "running" à la fois (2 crons qui se chevauchent ne retirent pas les listings en double) :
+-- verrou advisory pendant le claim + aucun autre job avec un bail valide.
+-- Bail expiré = worker mort pendant le job => repris, compte comme une tentative.
+-- ⚠️ tentatives épuisées (ex: invocation tuée à chaque fois par maxDuration) => "failed", jamais repris :
+-- sinon le job est repris à l'infini et bloque toute la file (1 seul job à la fois).
+
+create or replace function public.claim_scrape_job(p_worker text, p_lease_seconds integer)
+returns setof public.scrape_jobs
+language plpgsql
+as $$
+begin
+  if not pg_try_advisory_xact_lock(hashtext('scrape_jobs_claim')) then
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.scrape_jobs
+    where status = 'running' and locked_until > now()
+  ) then
+    return;
+  end if;
+
+  with given_up as (
+    update public.scrape_jobs
+    set status = 'failed',
+        attempts = attempts + 1,
+        locked_by = null,
+        locked_until = null,
+        last_error = 'Lease expired: worker killed before the end (max attempts reached)',
+        finished_at = now()
+    where status = 'running'
+      and locked_until <= now()
+      and attempts + 1 >= max_attempts
+    returning run_id, last_error
+  )
+  -- journal du run rattaché : sinon il reste "running"
+  update public.scrape_runs r
+  set status = 'failed', finished_at = now(), error_message = g.last_error
+  from given_up g
+  where r.id = g.run_id;
+
+  return query
+  update public.scrape_jobs j
+  set status = 'running',
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + (case when j.status = 'running' then 1 else 0 end),
+      started_at = coalesce(j.started_at, now())
+  where j.id = (
+    select id from public.scrape_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and locked_until <= now())
+    order by priority desc, run_after asc, created_at asc
+    for update skip locked
+    limit 1
+  )
+  returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_scrape_job(text, integer) from public, anon, authenticated;
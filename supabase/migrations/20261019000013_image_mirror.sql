@@ -0,0 +1,31 @@
+-- Miroir des images produits (lib/scraper/images.ts) : chaque image est téléchargée 1 fois,
+-- stockée sous son hash (Supabase Storage "listing-images" ou disque local) + 1 vignette pour les cartes.
+-- listings.image_url reste l'url d'origine (CDN du shop), pour référence.
+
+alter table public.listings
+  add column if not exists image_mirror_url text,
+  add column if not exists image_thumb_url text;
+
+create table if not exists public.image_mirror (
+  source_url text primary key, -- url d'origine
+  content_hash text, -- sha256 du fichier (clé de stockage : 2 urls, même image => 1 seul fichier)
+  content_type text,
+  bytes integer,
+  width integer,
+  height integer,
+  mirror_path text,
+  thumb_path text,
+  etag text, -- requête conditionnelle : 304 => pas de re-téléchargement
+  last_modified text,
+  fetched_at timestamptz, -- dernier téléchargement complet
+  checked_at timestamptz, -- dernière vérification (200 ou 304)
+  error_message text
+);
+
+-- interne : aucune policy => invisible pour anon
+alter table public.image_mirror enable row level security;
+
+-- bucket public : les pages lisent les images sans clé
+insert into storage.buckets (id, name, public)
+values ('listing-images', 'listing-images', true)
+on conflict (id) do nothing;